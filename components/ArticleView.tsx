@@ -0,0 +1,239 @@
+import { createContext, useContext, useState } from "react";
+import type { Article, ArticleBlock, ArticleFigure } from "@/utils/article";
+import { renderArticleHtml, renderArticleMarkdown } from "@/utils/article";
+
+const HighlightContext = createContext<string[]>([]);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function Text({ value }: { value: string }) {
+  const highlights = useContext(HighlightContext);
+  if (highlights.length === 0) {
+    return <>{value}</>;
+  }
+  const pattern = new RegExp(`(${highlights.map(escapeRegExp).join("|")})`, "g");
+  return (
+    <>
+      {value.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded bg-rose-500/30 px-0.5 text-rose-100">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+function Block({ block }: { block: ArticleBlock }) {
+  switch (block.type) {
+    case "paragraph":
+      return (
+        <p>
+          <Text value={block.text} />
+        </p>
+      );
+    case "list": {
+      const items = block.items.map((item, index) => (
+        <li key={index}>
+          <Text value={item} />
+        </li>
+      ));
+      return block.ordered ? (
+        <ol className="list-decimal space-y-1 pl-6">{items}</ol>
+      ) : (
+        <ul className="list-disc space-y-1 pl-6">{items}</ul>
+      );
+    }
+    case "prosCons":
+      return (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="rounded-xl border border-emerald-800 bg-emerald-950/40 p-4">
+            <h4 className="font-semibold text-emerald-200">{block.prosLabel}</h4>
+            <ul className="mt-2 list-disc space-y-1 pl-5 text-sm">
+              {block.pros.map((item, index) => (
+                <li key={index}>
+                  <Text value={item} />
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="rounded-xl border border-rose-800 bg-rose-950/40 p-4">
+            <h4 className="font-semibold text-rose-200">{block.consLabel}</h4>
+            <ul className="mt-2 list-disc space-y-1 pl-5 text-sm">
+              {block.cons.map((item, index) => (
+                <li key={index}>
+                  <Text value={item} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      );
+    case "faq":
+      return (
+        <dl className="space-y-3">
+          {block.items.map((item, index) => (
+            <div key={index}>
+              <dt className="font-semibold text-slate-100">{item.question}</dt>
+              <dd className="text-slate-300">
+                <Text value={item.answer} />
+              </dd>
+            </div>
+          ))}
+        </dl>
+      );
+    case "specTable":
+      return (
+        <table className="w-full text-left text-sm">
+          <tbody>
+            {block.rows.map((row, index) => (
+              <tr key={index} className="border-b border-slate-800">
+                <th scope="row" className="py-2 pr-4 font-semibold text-slate-200">
+                  {row.label}
+                </th>
+                <td className="py-2 text-slate-300">
+                  <Text value={row.value} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    case "comparisonTable":
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <td />
+                {block.columns.map((column, index) => (
+                  <th key={index} scope="col" className="py-2 pr-4 font-semibold text-slate-100">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, index) => (
+                <tr key={index} className="border-b border-slate-800">
+                  <th scope="row" className="py-2 pr-4 font-semibold text-slate-200">
+                    {row.label}
+                  </th>
+                  {row.values.map((value, column) => (
+                    <td key={column} className="py-2 pr-4 text-slate-300">
+                      {value}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case "disclosure":
+      return (
+        <aside className="rounded-xl border border-slate-700 bg-slate-900 px-4 py-3 text-xs italic text-slate-400">
+          {block.text}
+        </aside>
+      );
+    case "cta":
+      return (
+        <aside className="rounded-xl border border-accent/40 bg-accent/10 p-4">
+          <p>
+            <Text value={block.text} />
+          </p>
+          {block.url ? (
+            <a
+              href={block.url}
+              target="_blank"
+              rel="sponsored nofollow noreferrer"
+              className="mt-2 inline-block font-semibold"
+            >
+              {block.label}
+            </a>
+          ) : (
+            <strong className="mt-2 inline-block">{block.label}</strong>
+          )}
+        </aside>
+      );
+  }
+}
+
+function download(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ArticleExportButtons({ article, figures = [] }: { article: Article; figures?: ArticleFigure[] }) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = async (format: string, content: string) => {
+    await navigator.clipboard.writeText(content);
+    setCopied(format);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const formats = [
+    { format: "Markdown", extension: "md", type: "text/markdown", render: renderArticleMarkdown },
+    { format: "HTML", extension: "html", type: "text/html", render: renderArticleHtml }
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-2 text-xs">
+      {formats.map(({ format, extension, type, render }) => (
+        <div key={format} className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => copy(format, render(article, figures))}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:border-accent"
+          >
+            {copied === format ? "Copied!" : `Copy ${format}`}
+          </button>
+          <button
+            type="button"
+            onClick={() => download(`article.${extension}`, render(article, figures), type)}
+            className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:border-accent"
+          >
+            Download .{extension}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ArticleView({ article, highlights = [] }: { article: Article; highlights?: string[] }) {
+  const terms = Array.from(new Set(highlights.filter(Boolean))).sort((a, b) => b.length - a.length);
+  return (
+    <HighlightContext.Provider value={terms}>
+      <article className="mt-4 space-y-4 text-slate-200">
+        <h1 className="text-2xl font-bold text-slate-100">{article.headline}</h1>
+        {article.sections.map((section, sectionIndex) => (
+          <section key={sectionIndex} className="space-y-4">
+            <h2 className="text-xl font-semibold text-slate-100">{section.heading}</h2>
+            {section.blocks.map((block, index) => (
+              <Block key={index} block={block} />
+            ))}
+            {section.subsections.map((subsection, subsectionIndex) => (
+              <section key={subsectionIndex} className="space-y-3">
+                <h3 className="text-lg font-semibold text-slate-100">{subsection.heading}</h3>
+                {subsection.blocks.map((block, index) => (
+                  <Block key={index} block={block} />
+                ))}
+              </section>
+            ))}
+          </section>
+        ))}
+      </article>
+    </HighlightContext.Provider>
+  );
+}
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+
+type BatchRowStatus = "pending" | "running" | "done" | "failed";
+
+interface BatchJobSummary {
+  id: string;
+  status: "running" | "completed";
+  createdAt: string;
+  updatedAt: string;
+  counts: Record<BatchRowStatus, number>;
+}
+
+interface BatchJob extends BatchJobSummary {
+  rows: Array<{
+    index: number;
+    productUrl: string;
+    targetLocale?: string;
+    status: BatchRowStatus;
+    attempts: number;
+    error?: string;
+    title?: string;
+    files: string[];
+  }>;
+}
+
+const statusStyles: Record<BatchRowStatus, string> = {
+  pending: "text-slate-400",
+  running: "text-accent",
+  done: "text-emerald-300",
+  failed: "text-rose-300"
+};
+
+const inputClass =
+  "rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40";
+
+export default function BatchPanel({ brief }: { brief: Record<string, unknown> }) {
+  const [source, setSource] = useState("");
+  const [concurrency, setConcurrency] = useState(2);
+  const [jobs, setJobs] = useState<BatchJobSummary[]>([]);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshJobs = useCallback(async () => {
+    const response = await fetch("/api/batch");
+    if (response.ok) {
+      setJobs(((await response.json()) as { jobs: BatchJobSummary[] }).jobs);
+    }
+  }, []);
+
+  const openJob = useCallback(async (id: string) => {
+    const response = await fetch(`/api/batch/${id}`);
+    if (response.ok) {
+      setJob((await response.json()) as BatchJob);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshJobs().catch(() => undefined);
+  }, [refreshJobs]);
+
+  useEffect(() => {
+    if (!job || job.status !== "running") return;
+    const timer = setTimeout(() => {
+      openJob(job.id).catch(() => undefined);
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [job, openJob]);
+
+  useEffect(() => {
+    if (job?.status === "completed") {
+      refreshJobs().catch(() => undefined);
+    }
+  }, [job?.status, refreshJobs]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setSource(await file.text());
+    }
+  };
+
+  const startBatch = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const trimmed = source.trim();
+      const rows = trimmed.startsWith("[") ? (JSON.parse(trimmed) as unknown[]) : undefined;
+      const response = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ brief, concurrency, ...(rows ? { rows } : { csv: trimmed }) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to start batch");
+      }
+      await openJob((data as BatchJobSummary).id);
+      await refreshJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h2 className="text-lg font-semibold text-slate-100">Batch Generation</h2>
+      <p className="mt-2 text-sm text-slate-400">
+        Paste a CSV (columns: <code>url</code>, <code>keywords</code>, <code>locale</code>, and optional affiliate
+        columns such as <code>amazon</code> or <code>hotmart</code>) or a JSON array of rows. Every row uses the brief
+        above, with its own URL, keywords, locale, and affiliate link overrides.
+      </p>
+      <div className="mt-4 flex flex-col gap-4">
+        <textarea
+          rows={6}
+          className={clsx(inputClass, "font-mono text-xs")}
+          placeholder={"url,keywords,locale,amazon\nhttps://www.amazon.com.br/dp/B0...,fone bluetooth,pt-BR,https://amzn.to/..."}
+          value={source}
+          onChange={(event) => setSource(event.target.value)}
+        />
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="text-sm text-slate-400"
+            onChange={(event) => handleFile(event.target.files?.[0])}
+          />
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            Concurrency
+            <input
+              type="number"
+              min={1}
+              max={5}
+              className={clsx(inputClass, "w-20 py-2")}
+              value={concurrency}
+              onChange={(event) => setConcurrency(Number(event.target.value) || 1)}
+            />
+          </label>
+          <button
+            type="button"
+            disabled={submitting || !source.trim()}
+            onClick={startBatch}
+            className={clsx(
+              "rounded-xl bg-primary px-6 py-3 text-sm font-semibold uppercase tracking-wider text-primary-foreground transition hover:bg-primary/80",
+              (submitting || !source.trim()) && "cursor-not-allowed opacity-60"
+            )}
+          >
+            {submitting ? "Starting..." : "Start Batch"}
+          </button>
+        </div>
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">Jobs</h3>
+          <ul className="mt-2 space-y-1 text-sm text-slate-300">
+            {jobs.map((summary) => (
+              <li key={summary.id}>
+                <button type="button" className="hover:text-accent" onClick={() => openJob(summary.id)}>
+                  {new Date(summary.createdAt).toLocaleString()} · {summary.status} · {summary.counts.done} done,{" "}
+                  {summary.counts.failed} failed, {summary.counts.pending + summary.counts.running} remaining
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {job && (
+        <div className="mt-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+              Job {job.id.slice(0, 8)} · {job.status}
+            </h3>
+            <a
+              href={`/api/batch/${job.id}/download`}
+              className="rounded-xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-accent"
+            >
+              Download ZIP
+            </a>
+          </div>
+          <table className="mt-3 w-full text-left text-sm text-slate-300">
+            <thead className="text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-2 pr-3">#</th>
+                <th className="py-2 pr-3">Product</th>
+                <th className="py-2 pr-3">Status</th>
+                <th className="py-2">Attempts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.rows.map((row) => (
+                <tr key={row.index} className="border-t border-slate-800 align-top">
+                  <td className="py-2 pr-3">{row.index + 1}</td>
+                  <td className="break-all py-2 pr-3">
+                    {row.title ?? row.productUrl}
+                    {row.error && <p className="text-xs text-rose-300">{row.error}</p>}
+                  </td>
+                  <td className={clsx("py-2 pr-3", statusStyles[row.status])}>{row.status}</td>
+                  <td className="py-2">{row.attempts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
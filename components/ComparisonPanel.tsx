@@ -0,0 +1,206 @@
+import { useState } from "react";
+import clsx from "clsx";
+import ArticleView, { ArticleExportButtons } from "@/components/ArticleView";
+import type { Article, ArticleFigure } from "@/utils/article";
+
+const platforms = [
+  "amazon",
+  "mercadoLivre",
+  "shopee",
+  "magalu",
+  "clickbank",
+  "hotmart",
+  "eduzz",
+  "kiwify",
+  "braip"
+] as const;
+
+type Platform = (typeof platforms)[number];
+
+interface ComparisonRow {
+  url: string;
+  platform: Platform;
+  link: string;
+}
+
+interface ComparisonResponse {
+  article: Article;
+  imageSet?: { images: ArticleFigure[] };
+  products: Array<{ url: string; product: { title?: string }; bestFor: string; verdict: string; rating: number }>;
+  failed: Array<{ url: string; error: string }>;
+  discoverySchema: Record<string, unknown> | null;
+  schemaWarnings: string[];
+  schemaValidation: { valid: boolean } | null;
+}
+
+const inputClass =
+  "rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40";
+
+const emptyRow: ComparisonRow = { url: "", platform: "amazon", link: "" };
+
+export default function ComparisonPanel({ brief }: { brief: Record<string, unknown> }) {
+  const [rows, setRows] = useState<ComparisonRow[]>([emptyRow, emptyRow]);
+  const [result, setResult] = useState<ComparisonResponse | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = (index: number, patch: Partial<ComparisonRow>) => {
+    setRows((prev) => prev.map((row, position) => (position === index ? { ...row, ...patch } : row)));
+  };
+
+  const ready = rows.filter((row) => row.url.trim()).length >= 2;
+
+  const compare = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...brief,
+          products: rows
+            .filter((row) => row.url.trim())
+            .map((row) => ({
+              url: row.url.trim(),
+              affiliateLinks: row.link.trim() ? { [row.platform]: row.link.trim() } : {}
+            }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to build the comparison");
+      }
+      setResult(data as ComparisonResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h2 className="text-lg font-semibold text-slate-100">Product Comparison</h2>
+      <p className="mt-2 text-sm text-slate-400">
+        Compare 2–10 products in one roundup. Every product is scraped in parallel, its specs are merged into a shared
+        comparison table, and each product can carry its own affiliate link. The brief above sets keywords, tone, and
+        locale.
+      </p>
+      <div className="mt-4 flex flex-col gap-3">
+        {rows.map((row, index) => (
+          <div key={index} className="grid gap-2 md:grid-cols-[2fr_auto_2fr_auto]">
+            <input
+              type="url"
+              placeholder={`Product ${index + 1} URL`}
+              className={inputClass}
+              value={row.url}
+              onChange={(event) => updateRow(index, { url: event.target.value })}
+            />
+            <select
+              className={inputClass}
+              value={row.platform}
+              onChange={(event) => updateRow(index, { platform: event.target.value as Platform })}
+            >
+              {platforms.map((platform) => (
+                <option key={platform} value={platform}>
+                  {platform}
+                </option>
+              ))}
+            </select>
+            <input
+              type="url"
+              placeholder="Affiliate link (optional)"
+              className={inputClass}
+              value={row.link}
+              onChange={(event) => updateRow(index, { link: event.target.value })}
+            />
+            <button
+              type="button"
+              disabled={rows.length <= 2}
+              onClick={() => setRows((prev) => prev.filter((_, position) => position !== index))}
+              className={clsx(
+                "rounded-xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-accent",
+                rows.length <= 2 && "cursor-not-allowed opacity-60"
+              )}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-4">
+          <button
+            type="button"
+            disabled={rows.length >= 10}
+            onClick={() => setRows((prev) => [...prev, emptyRow])}
+            className={clsx(
+              "rounded-xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-accent",
+              rows.length >= 10 && "cursor-not-allowed opacity-60"
+            )}
+          >
+            Add Product
+          </button>
+          <button
+            type="button"
+            disabled={submitting || !ready}
+            onClick={compare}
+            className={clsx(
+              "rounded-xl bg-primary px-6 py-3 text-sm font-semibold uppercase tracking-wider text-primary-foreground transition hover:bg-primary/80",
+              (submitting || !ready) && "cursor-not-allowed opacity-60"
+            )}
+          >
+            {submitting ? "Comparing..." : "Generate Comparison"}
+          </button>
+        </div>
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+      </div>
+
+      {result && (
+        <div className="mt-6 space-y-6">
+          {result.failed.length > 0 && (
+            <div className="text-sm text-amber-300">
+              <p>Skipped products that could not be scraped:</p>
+              <ul className="mt-1 list-disc space-y-1 pl-5">
+                {result.failed.map((entry) => (
+                  <li key={entry.url}>
+                    {entry.url}: {entry.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div>
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">Verdicts</h3>
+            <ul className="mt-2 space-y-2 text-sm text-slate-300">
+              {result.products.map((entry) => (
+                <li key={entry.url}>
+                  <span className="font-semibold text-slate-100">{entry.product.title ?? entry.url}</span> ·{" "}
+                  {entry.bestFor} · {entry.rating}/5
+                </li>
+              ))}
+            </ul>
+          </div>
+          <ArticleExportButtons article={result.article} figures={result.imageSet?.images} />
+          <ArticleView article={result.article} />
+          {result.discoverySchema && (
+            <div>
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400">
+                JSON-LD{result.schemaValidation && (result.schemaValidation.valid ? " · valid" : " · has errors")}
+              </h3>
+              {result.schemaWarnings.length > 0 && (
+                <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-amber-300">
+                  {result.schemaWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+              <pre className="mt-2 max-h-80 overflow-auto rounded-xl bg-slate-900 p-4 text-xs text-slate-300">
+                {JSON.stringify(result.discoverySchema, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import clsx from "clsx";
+import type { RegenerationTarget } from "@/components/RegeneratePanel";
+
+export interface GeneratedImage {
+  url: string;
+  prompt: string;
+  status: "generated" | "placeholder" | "failed";
+  provider: string;
+  aspectRatio: string;
+  seed?: number;
+  negativePrompt?: string;
+  error?: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+}
+
+const statusStyles: Record<GeneratedImage["status"], string> = {
+  generated: "border-emerald-700 bg-emerald-950/60 text-emerald-300",
+  placeholder: "border-slate-700 bg-slate-900 text-slate-400",
+  failed: "border-rose-700 bg-rose-950/60 text-rose-300"
+};
+
+function ImageCard({
+  image,
+  index,
+  onRegenerate
+}: {
+  image: GeneratedImage;
+  index: number;
+  onRegenerate: (target: RegenerationTarget, instruction: string) => Promise<string>;
+}) {
+  const [prompt, setPrompt] = useState(image.prompt);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const regenerate = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      await onRegenerate({ type: "image", index, prompt: prompt.trim() || undefined }, "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <figure className="space-y-2 rounded-xl border border-slate-800 bg-slate-900 p-4">
+      <img src={image.url} alt={image.alt ?? image.prompt} className="h-40 w-full rounded-lg object-cover" />
+      <figcaption className="space-y-2 text-xs text-slate-400">
+        <p className="flex flex-wrap items-center gap-2">
+          <span className={clsx("rounded-full border px-2 py-0.5 font-semibold uppercase", statusStyles[image.status])}>
+            {image.status}
+          </span>
+          <span>
+            {image.provider} · {image.aspectRatio}
+            {image.seed !== undefined && ` · seed ${image.seed}`}
+          </span>
+        </p>
+        {image.error && <p className="text-rose-300">{image.error}</p>}
+        <textarea
+          rows={3}
+          className="w-full rounded-lg border border-slate-800 bg-slate-950 px-3 py-2 text-slate-200 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+          value={prompt}
+          onChange={(event) => setPrompt(event.target.value)}
+        />
+        <button
+          type="button"
+          disabled={running}
+          onClick={regenerate}
+          className={clsx(
+            "rounded-lg border border-slate-700 px-3 py-1 font-semibold uppercase tracking-wide text-slate-200 transition hover:border-accent hover:text-accent",
+            running && "cursor-not-allowed opacity-60"
+          )}
+        >
+          {running ? "Regenerating..." : "Regenerate image"}
+        </button>
+        {error && <p className="text-rose-300">{error}</p>}
+      </figcaption>
+    </figure>
+  );
+}
+
+export default function GeneratedImages({
+  images,
+  onRegenerate
+}: {
+  images: GeneratedImage[];
+  onRegenerate: (target: RegenerationTarget, instruction: string) => Promise<string>;
+}) {
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h3 className="text-lg font-semibold text-slate-100">Nano Banana Shots</h3>
+      <p className="mt-2 text-xs text-slate-500">
+        Edit a prompt and regenerate that image alone. Placeholders mean the provider is not configured; failed shots
+        show the provider error.
+      </p>
+      <div className="mt-4 grid gap-4">
+        {images.map((image, index) => (
+          <ImageCard key={`${index}-${image.url}`} image={image} index={index} onRegenerate={onRegenerate} />
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,57 @@
+import clsx from "clsx";
+
+export const generationStages = [
+  { id: "scrape", label: "Scrape product" },
+  { id: "draft", label: "Draft article" },
+  { id: "spellcheck", label: "Spell check" },
+  { id: "images", label: "Generate images" },
+  { id: "audit", label: "Audit SEO" },
+  { id: "schema", label: "Build schema" }
+] as const;
+
+export type GenerationStage = (typeof generationStages)[number]["id"];
+
+export default function GenerationProgress({
+  completed,
+  running,
+  draftPreview
+}: {
+  completed: GenerationStage[];
+  running: boolean;
+  draftPreview: string;
+}) {
+  const active = running ? generationStages.find((stage) => !completed.includes(stage.id))?.id : undefined;
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h3 className="text-lg font-semibold text-slate-100">Progress</h3>
+      <ol className="mt-4 space-y-2 text-sm">
+        {generationStages.map((stage, index) => (
+          <li
+            key={stage.id}
+            className={clsx(
+              "flex items-center gap-3",
+              completed.includes(stage.id) ? "text-emerald-300" : stage.id === active ? "text-accent" : "text-slate-500"
+            )}
+          >
+            <span
+              className={clsx(
+                "flex h-6 w-6 items-center justify-center rounded-full border text-xs",
+                completed.includes(stage.id) ? "border-emerald-400/60" : "border-slate-700",
+                stage.id === active && "animate-pulse border-accent"
+              )}
+            >
+              {completed.includes(stage.id) ? "✓" : index + 1}
+            </span>
+            {stage.label}
+          </li>
+        ))}
+      </ol>
+      {active === "draft" && draftPreview && (
+        <pre className="mt-4 max-h-40 overflow-hidden whitespace-pre-wrap break-all rounded-xl bg-slate-900 p-4 text-xs text-slate-400">
+          {draftPreview.slice(-1200)}
+        </pre>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import clsx from "clsx";
+import ArticleView, { ArticleExportButtons } from "@/components/ArticleView";
+import type { Article, ArticleFigure } from "@/utils/article";
+
+interface LocaleVariant {
+  locale: string;
+  headTags: string;
+  result: {
+    article: Article;
+    imageSet?: { images: ArticleFigure[] };
+    seo: { title: string; metaDescription: string; canonicalUrl?: string };
+    schemaValidation: { valid: boolean } | null;
+    spellcheck: { dictionary: string | null; corrections: unknown[] };
+    compliance: { issues: unknown[] };
+  };
+}
+
+interface MultiLocaleResponse {
+  variants: LocaleVariant[];
+  warnings: string[];
+}
+
+const inputClass =
+  "rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40";
+
+function variantUrl(pattern: string, locale: string): string | undefined {
+  return pattern.includes("{locale}") ? pattern.split("{locale}").join(locale.toLowerCase()) : undefined;
+}
+
+export default function MultiLocalePanel({ brief }: { brief: Record<string, unknown> }) {
+  const [locales, setLocales] = useState("pt-BR, es-MX, en-US");
+  const [urlPattern, setUrlPattern] = useState("");
+  const [result, setResult] = useState<MultiLocaleResponse | null>(null);
+  const [active, setActive] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = locales
+    .split(",")
+    .map((locale) => locale.trim())
+    .filter(Boolean);
+  const ready = entries.length >= 2 && Boolean(brief.productUrl);
+
+  const generate = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/generate-locales", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...brief,
+          variants: entries.map((locale) => ({ locale, articleUrl: variantUrl(urlPattern.trim(), locale) }))
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const issues = (data.details?.issues ?? []) as Array<{ message: string }>;
+        const messages = issues.map((issue) => issue.message);
+        throw new Error([data.error ?? "Failed to build the localized articles", ...messages].join(" "));
+      }
+      setResult(data as MultiLocaleResponse);
+      setActive(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const variant = result?.variants[active];
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h2 className="text-lg font-semibold text-slate-100">Localized Variants</h2>
+      <p className="mt-2 text-sm text-slate-400">
+        Scrape the product once and write a native article for each locale, with its own spell check, currency, and
+        disclosure. Use <code>{"{locale}"}</code> in the URL pattern to get matching canonical and hreflang tags.
+      </p>
+      <div className="mt-4 grid gap-3 md:grid-cols-[1fr_2fr_auto]">
+        <input
+          type="text"
+          placeholder="pt-BR, es-MX, en-US"
+          className={inputClass}
+          value={locales}
+          onChange={(event) => setLocales(event.target.value)}
+        />
+        <input
+          type="text"
+          placeholder="https://blog.example.com/{locale}/product-review"
+          className={inputClass}
+          value={urlPattern}
+          onChange={(event) => setUrlPattern(event.target.value)}
+        />
+        <button
+          type="button"
+          disabled={submitting || !ready}
+          onClick={generate}
+          className={clsx(
+            "rounded-xl bg-primary px-6 py-3 text-sm font-semibold uppercase tracking-wider text-primary-foreground transition hover:bg-primary/80",
+            (submitting || !ready) && "cursor-not-allowed opacity-60"
+          )}
+        >
+          {submitting ? "Generating..." : "Generate Variants"}
+        </button>
+      </div>
+      {error && <p className="mt-3 text-sm text-rose-300">{error}</p>}
+
+      {result && variant && (
+        <div className="mt-6">
+          {result.warnings.length > 0 && (
+            <ul className="mb-4 list-disc space-y-1 pl-5 text-xs text-amber-300">
+              {result.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap gap-2 border-b border-slate-800">
+            {result.variants.map((entry, index) => (
+              <button
+                key={entry.locale}
+                type="button"
+                onClick={() => setActive(index)}
+                className={clsx(
+                  "-mb-px border-b-2 px-4 py-2 text-sm font-semibold",
+                  index === active ? "border-accent text-accent" : "border-transparent text-slate-400 hover:text-slate-200"
+                )}
+              >
+                {entry.locale}
+              </button>
+            ))}
+          </div>
+          <div className="mt-4 space-y-4">
+            <div className="space-y-1 text-sm text-slate-300">
+              <p>
+                <span className="font-semibold text-slate-100">{variant.result.seo.title}</span>
+              </p>
+              <p className="text-slate-400">{variant.result.seo.metaDescription}</p>
+              <p className="text-xs text-slate-500">
+                Dictionary {variant.result.spellcheck.dictionary ?? "unavailable"} ·{" "}
+                {variant.result.spellcheck.corrections.length} correction(s) · {variant.result.compliance.issues.length}{" "}
+                compliance issue(s) ·{" "}
+                {variant.result.schemaValidation?.valid === false ? "JSON-LD has errors" : "JSON-LD valid"}
+              </p>
+            </div>
+            {variant.headTags && (
+              <pre className="overflow-auto rounded-xl bg-slate-900 p-4 text-xs text-slate-300">{variant.headTags}</pre>
+            )}
+            <ArticleExportButtons article={variant.result.article} figures={variant.result.imageSet?.images} />
+            <ArticleView article={variant.result.article} />
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import clsx from "clsx";
+
+interface Preset<T> {
+  id: string;
+  name: string;
+  brief: Partial<T>;
+  updatedAt: string;
+}
+
+const inputClass =
+  "rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40";
+
+const buttonClass =
+  "rounded-xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-accent";
+
+export default function PresetPicker<T extends object>({
+  brief,
+  onApply
+}: {
+  brief: T;
+  onApply: (brief: Partial<T>) => void;
+}) {
+  const [presets, setPresets] = useState<Preset<T>[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshPresets = useCallback(async () => {
+    const response = await fetch("/api/presets");
+    if (response.ok) {
+      setPresets(((await response.json()) as { presets: Preset<T>[] }).presets);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshPresets().catch(() => undefined);
+  }, [refreshPresets]);
+
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  const savePreset = async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, brief })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to save preset");
+      }
+      await refreshPresets();
+      setSelectedId((data as Preset<T>).id);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const deletePreset = async () => {
+    if (!selected) return;
+    await fetch(`/api/presets/${selected.id}`, { method: "DELETE" });
+    setSelectedId("");
+    await refreshPresets();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-slate-800 bg-slate-950/60 p-4">
+      <span className="text-sm font-medium uppercase tracking-wide text-slate-400">Briefing Presets</span>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className={clsx(inputClass, "min-w-[12rem] flex-1 py-2")}
+          value={selectedId}
+          onChange={(event) => setSelectedId(event.target.value)}
+        >
+          <option value="">Select a preset…</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={!selected}
+          className={buttonClass}
+          onClick={() => selected && onApply(selected.brief)}
+        >
+          Apply
+        </button>
+        <button type="button" disabled={!selected} className={buttonClass} onClick={deletePreset}>
+          Delete
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          placeholder="Save current brief as…"
+          className={clsx(inputClass, "flex-1 py-2")}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <button type="button" disabled={!name.trim()} className={buttonClass} onClick={savePreset}>
+          Save Preset
+        </button>
+      </div>
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import clsx from "clsx";
+
+export type RegenerationTarget =
+  | { type: "section"; index: number }
+  | { type: "seo" }
+  | { type: "reviews" }
+  | { type: "images" }
+  | { type: "image"; index: number; prompt?: string };
+
+const inputClass =
+  "rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40";
+
+function targetValue(target: RegenerationTarget): string {
+  return target.type === "section" ? `section:${target.index}` : target.type;
+}
+
+export default function RegeneratePanel({
+  sections,
+  onRegenerate
+}: {
+  sections: Array<{ heading: string }>;
+  onRegenerate: (target: RegenerationTarget, instruction: string) => Promise<string>;
+}) {
+  const targets: Array<{ target: RegenerationTarget; label: string }> = [
+    ...sections.map((section, index) => ({
+      target: { type: "section", index } as RegenerationTarget,
+      label: `Section: ${section.heading}`
+    })),
+    { target: { type: "seo" }, label: "SEO metadata" },
+    { target: { type: "reviews" }, label: "Reviews" },
+    { target: { type: "images" }, label: "Image set" }
+  ];
+  const [selected, setSelected] = useState(targetValue(targets[0].target));
+  const [instruction, setInstruction] = useState("");
+  const [running, setRunning] = useState(false);
+  const [status, setStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const submit = async () => {
+    const entry = targets.find(({ target }) => targetValue(target) === selected) ?? targets[0];
+    setRunning(true);
+    setStatus(null);
+    try {
+      setStatus({ ok: true, message: await onRegenerate(entry.target, instruction) });
+      setInstruction("");
+    } catch (err) {
+      setStatus({ ok: false, message: err instanceof Error ? err.message : "Unknown error" });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h3 className="text-lg font-semibold text-slate-100">Regenerate a Part</h3>
+      <p className="mt-2 text-xs text-slate-500">
+        Rewrites only the selected part with the current briefing settings. Everything else is kept, and spell check
+        and schema re-run on what changed.
+      </p>
+      <div className="mt-4 flex flex-col gap-3">
+        <select className={inputClass} value={selected} onChange={(event) => setSelected(event.target.value)}>
+          {targets.map(({ target, label }) => (
+            <option key={targetValue(target)} value={targetValue(target)}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Optional instruction, e.g. shorter, add a comparison with competitor X"
+          className={inputClass}
+          value={instruction}
+          onChange={(event) => setInstruction(event.target.value)}
+        />
+        <button
+          type="button"
+          disabled={running}
+          onClick={submit}
+          className={clsx(
+            "rounded-xl bg-primary px-6 py-3 text-sm font-semibold uppercase tracking-wider text-primary-foreground transition hover:bg-primary/80",
+            running && "cursor-not-allowed opacity-60"
+          )}
+        >
+          {running ? "Regenerating..." : "Regenerate"}
+        </button>
+        {status && <p className={clsx("text-sm", status.ok ? "text-emerald-300" : "text-rose-300")}>{status.message}</p>}
+      </div>
+    </section>
+  );
+}
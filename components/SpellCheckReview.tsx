@@ -0,0 +1,137 @@
+import { useState } from "react";
+import clsx from "clsx";
+import type { SpellCheckFlag } from "@/server/spellcheck";
+
+type Decision = string | null;
+
+export function rebuildArticle(text: string, flags: SpellCheckFlag[], decisions: Decision[]): string {
+  let rebuilt = "";
+  let cursor = 0;
+  flags.forEach((flag, index) => {
+    rebuilt += text.slice(cursor, flag.start) + (decisions[index] ?? flag.original);
+    cursor = flag.end;
+  });
+  return rebuilt + text.slice(cursor);
+}
+
+export function pendingFlags(flags: SpellCheckFlag[], decisions: Decision[]): SpellCheckFlag[] {
+  const pending: SpellCheckFlag[] = [];
+  let shift = 0;
+  flags.forEach((flag, index) => {
+    const decision = decisions[index];
+    if (decision === null) {
+      pending.push({ ...flag, start: flag.start + shift, end: flag.end + shift });
+    } else {
+      shift += decision.length - (flag.end - flag.start);
+    }
+  });
+  return pending;
+}
+
+export default function SpellCheckReview({
+  text,
+  flags,
+  onChange
+}: {
+  text: string;
+  flags: SpellCheckFlag[];
+  onChange: (article: string, pending: SpellCheckFlag[]) => void;
+}) {
+  const [decisions, setDecisions] = useState<Decision[]>(() => flags.map(() => null));
+  const [active, setActive] = useState<number | null>(flags.length > 0 ? 0 : null);
+
+  const updateDecisions = (next: Decision[]) => {
+    setDecisions(next);
+    onChange(rebuildArticle(text, flags, next), pendingFlags(flags, next));
+  };
+
+  const decide = (index: number, value: string) => {
+    const next = decisions.map((decision, position) => (position === index ? value : decision));
+    updateDecisions(next);
+    const after = next.findIndex((decision, position) => position > index && decision === null);
+    const nextPending = after >= 0 ? after : next.indexOf(null);
+    setActive(nextPending >= 0 ? nextPending : null);
+  };
+
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  flags.forEach((flag, index) => {
+    segments.push(text.slice(cursor, flag.start));
+    const decision = decisions[index];
+    segments.push(
+      <button
+        key={`${flag.start}-${flag.end}`}
+        type="button"
+        onClick={() => setActive(index)}
+        className={clsx(
+          "rounded px-0.5 underline decoration-wavy underline-offset-4",
+          decision === null && "bg-rose-900/50 decoration-rose-400",
+          decision !== null && decision !== flag.original && "bg-emerald-900/40 decoration-emerald-400",
+          decision === flag.original && "bg-slate-800 decoration-slate-500",
+          active === index && "ring-2 ring-accent"
+        )}
+      >
+        {decision ?? flag.original}
+      </button>
+    );
+    cursor = flag.end;
+  });
+  segments.push(text.slice(cursor));
+
+  const activeFlag = active !== null ? flags[active] : null;
+  const pending = decisions.filter((decision) => decision === null).length;
+
+  return (
+    <div className="mt-4 space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        <span>
+          {pending} of {flags.length} flagged words pending review
+        </span>
+        <button
+          type="button"
+          onClick={() => updateDecisions(flags.map((flag) => flag.candidates[0] ?? flag.original))}
+          className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:border-accent"
+        >
+          Accept all
+        </button>
+        <button
+          type="button"
+          onClick={() => updateDecisions(flags.map((flag) => flag.original))}
+          className="rounded-lg border border-slate-700 px-3 py-1 text-slate-200 hover:border-accent"
+        >
+          Reject all
+        </button>
+      </div>
+      <div className="max-h-96 overflow-auto whitespace-pre-wrap rounded-xl bg-slate-900 p-4 leading-relaxed text-slate-200">
+        {segments}
+      </div>
+      {activeFlag && active !== null && (
+        <div className="flex flex-wrap items-center gap-2 rounded-xl border border-slate-800 bg-slate-900 p-4">
+          <span className="font-semibold text-slate-200">{activeFlag.original}</span>
+          <span className="text-slate-500">→</span>
+          {activeFlag.candidates.map((candidate, index) => (
+            <button
+              key={candidate}
+              type="button"
+              onClick={() => decide(active, candidate)}
+              className={clsx(
+                "rounded-lg px-3 py-1",
+                index === 0 ? "bg-primary text-primary-foreground" : "border border-slate-700 text-slate-200"
+              )}
+            >
+              {index === 0 ? `Accept “${candidate}”` : candidate}
+            </button>
+          ))}
+          {activeFlag.candidates.length === 0 && <span className="text-slate-500">No suggestions</span>}
+          <button
+            type="button"
+            onClick={() => decide(active, activeFlag.original)}
+            className="rounded-lg border border-rose-800 px-3 py-1 text-rose-200"
+          >
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import clsx from "clsx";
+
+export interface WordPressPublication {
+  siteUrl: string;
+  postId: number;
+  link: string;
+  status: string;
+  date?: string;
+  publishedAt: string;
+}
+
+const inputClass =
+  "rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40";
+
+export default function WordPressPublishPanel<T extends object>({
+  historyId,
+  publication,
+  current
+}: {
+  historyId: string;
+  publication?: WordPressPublication;
+  current?: T;
+}) {
+  const [published, setPublished] = useState<WordPressPublication | undefined>(publication);
+  const [status, setStatus] = useState<"" | "draft" | "future">(publication ? "" : "draft");
+  const [date, setDate] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const publish = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${historyId}/publish`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status: status || undefined,
+          date: status === "future" && date ? new Date(date).toISOString() : undefined,
+          current
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error ?? "Failed to publish to WordPress");
+      }
+      setPublished(data as WordPressPublication);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+      <h3 className="text-lg font-semibold text-slate-100">Publish to WordPress</h3>
+      <p className="mt-2 text-xs text-slate-500">
+        Sends the article, SEO fields, JSON-LD, images, and keyword categories/tags to the configured WordPress site.
+        Publishing again updates the same post.
+      </p>
+      <div className="mt-4 flex flex-col gap-3">
+        <select
+          className={inputClass}
+          value={status}
+          onChange={(event) => setStatus(event.target.value as "" | "draft" | "future")}
+        >
+          {published && <option value="">Keep current status</option>}
+          <option value="draft">Draft</option>
+          <option value="future">Scheduled</option>
+        </select>
+        {status === "future" && (
+          <input
+            type="datetime-local"
+            className={inputClass}
+            value={date}
+            onChange={(event) => setDate(event.target.value)}
+          />
+        )}
+        <button
+          type="button"
+          disabled={running || (status === "future" && !date)}
+          onClick={publish}
+          className={clsx(
+            "rounded-xl bg-primary px-6 py-3 text-sm font-semibold uppercase tracking-wider text-primary-foreground transition hover:bg-primary/80",
+            (running || (status === "future" && !date)) && "cursor-not-allowed opacity-60"
+          )}
+        >
+          {running ? "Publishing..." : published ? "Update WordPress post" : "Publish to WordPress"}
+        </button>
+        {published && (
+          <p className="text-sm text-emerald-300">
+            Post #{published.postId} is {published.status}
+            {published.date && ` for ${new Date(published.date).toLocaleString()}`} ·{" "}
+            <a href={published.link} target="_blank" rel="noreferrer" className="text-accent hover:underline">
+              {published.link}
+            </a>{" "}
+            <span className="text-slate-500">(last sent {new Date(published.publishedAt).toLocaleString()})</span>
+          </p>
+        )}
+        {error && <p className="text-sm text-rose-300">{error}</p>}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,6 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { resumeBatchJobs } = await import("@/server/batch");
+    await resumeBatchJobs().catch((error) => console.error("Failed to resume batch jobs", error));
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { buildBatchArchive, loadJob } from "@/server/batch";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    const job = await loadJob(String(req.query.id));
+    if (!job) {
+      res.status(404).json({ error: "Batch job not found." });
+      return;
+    }
+    const archive = await buildBatchArchive(job);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", `attachment; filename="batch-${job.id}.zip"`);
+    res.status(200).send(archive);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to build archive.";
+    res.status(400).json({ error: message });
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { loadJob, summarizeJob } from "@/server/batch";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    const job = await loadJob(String(req.query.id));
+    if (!job) {
+      res.status(404).json({ error: "Batch job not found." });
+      return;
+    }
+    res.status(200).json({
+      ...summarizeJob(job),
+      rows: job.rows.map(({ request, ...row }) => ({ ...row, targetLocale: request?.targetLocale }))
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load batch.";
+    res.status(400).json({ error: message });
+  }
+}
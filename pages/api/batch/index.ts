@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { batchRequestSchema, createBatchJob, listBatchJobs, summarizeJob } from "@/server/batch";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    res.status(200).json({ jobs: await listBatchJobs() });
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    const job = await createBatchJob(batchRequestSchema.parse(req.body));
+    res.status(202).json(summarizeJob(job));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: "Invalid batch request.", details: error });
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Failed to create batch.";
+    res.status(400).json({ error: message });
+  }
+}
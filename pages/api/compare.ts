@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { comparisonRequestSchema, runComparison, type ComparisonBody } from "@/server/comparison";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  let body: ComparisonBody;
+  try {
+    body = comparisonRequestSchema.parse(req.body);
+  } catch (error) {
+    res.status(400).json({ error: "Invalid request body.", details: error });
+    return;
+  }
+
+  try {
+    const outcome = await runComparison(body);
+    res.status(outcome.status).json(outcome.body);
+  } catch (error) {
+    console.error("Comparison failed:", error);
+    const message = error instanceof Error ? error.message : "Failed to build the comparison.";
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requestSchema, runGeneration, type GenerateBody } from "@/server/generation";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  let body: GenerateBody;
+  try {
+    body = requestSchema.parse(req.body);
+  } catch (error) {
+    res.status(400).json({ error: "Invalid request body.", details: error });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "application/x-ndjson; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    "X-Accel-Buffering": "no"
+  });
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  const send = (event: Record<string, unknown>) => {
+    if (!controller.signal.aborted) {
+      res.write(`${JSON.stringify(event)}\n`);
+    }
+  };
+
+  try {
+    const outcome = await runGeneration(body, { onEvent: send, streamTokens: true, signal: controller.signal });
+    send(outcome.status === 200 ? { type: "result", result: outcome.body } : { type: "error", ...outcome.body });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.warn("Generation stopped because the client disconnected.");
+    } else {
+      console.error("Generation failed:", error);
+      send({ type: "error", error: error instanceof Error ? error.message : "Failed to build article." });
+    }
+  }
+  res.end();
+}
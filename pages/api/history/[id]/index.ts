@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deleteHistoryEntry, getHistoryEntry } from "@/server/history";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["GET", "DELETE"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    const id = String(req.query.id);
+    if (req.method === "DELETE") {
+      if (!(await deleteHistoryEntry(id))) {
+        res.status(404).json({ error: "History entry not found." });
+        return;
+      }
+      res.status(204).end();
+      return;
+    }
+
+    const entry = await getHistoryEntry(id);
+    if (!entry) {
+      res.status(404).json({ error: "History entry not found." });
+      return;
+    }
+    res.status(200).json(entry);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load history entry.";
+    res.status(400).json({ error: message });
+  }
+}
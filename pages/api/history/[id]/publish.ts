@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getHistoryEntry, recordPublication } from "@/server/history";
+import { publishRequestSchema, publishToWordPress, type PublishBody } from "@/server/wordpress";
+
+const publishing = new Set<string>();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  let body: PublishBody;
+  try {
+    body = publishRequestSchema.parse(req.body ?? {});
+  } catch (error) {
+    res.status(400).json({ error: "Invalid request body.", details: error });
+    return;
+  }
+
+  const id = String(req.query.id);
+  if (publishing.has(id)) {
+    res.status(409).json({ error: "This article is already being published." });
+    return;
+  }
+
+  publishing.add(id);
+  try {
+    const entry = await getHistoryEntry(id);
+    if (!entry) {
+      res.status(404).json({ error: "History entry not found." });
+      return;
+    }
+    const wordpress = await publishToWordPress({
+      content: body.current ?? entry.response,
+      status: body.status,
+      date: body.date,
+      previous: entry.wordpress
+    });
+    await recordPublication(id, wordpress);
+    res.status(200).json(wordpress);
+  } catch (error) {
+    console.error("WordPress publishing failed:", error);
+    const message = error instanceof Error ? error.message : "Failed to publish to WordPress.";
+    res.status(500).json({ error: message });
+  } finally {
+    publishing.delete(id);
+  }
+}
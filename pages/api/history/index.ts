@@ -0,0 +1,14 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { listHistory } from "@/server/history";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  const limit = Number(req.query.limit) || undefined;
+  const offset = Number(req.query.offset) || undefined;
+  res.status(200).json({ entries: await listHistory({ limit, offset }) });
+}
@@ -0,0 +1,26 @@
+import { promises as fs } from "fs";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { imageFile } from "@/server/images";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    const file = String(req.query.file);
+    const data = await fs.readFile(imageFile(file)).catch(() => null);
+    if (!data) {
+      res.status(404).json({ error: "Image not found." });
+      return;
+    }
+    res.setHeader("Content-Type", file.endsWith(".avif") ? "image/avif" : "image/webp");
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.status(200).send(data);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to load image.";
+    res.status(400).json({ error: message });
+  }
+}
@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { deletePreset } from "@/server/presets";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  if (!(await deletePreset(String(req.query.id)))) {
+    res.status(404).json({ error: "Preset not found." });
+    return;
+  }
+  res.status(204).end();
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { listPresets, presetSchema, savePreset } from "@/server/presets";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === "GET") {
+    res.status(200).json({ presets: await listPresets() });
+    return;
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  try {
+    res.status(200).json(await savePreset(presetSchema.parse(req.body)));
+  } catch (error) {
+    if (error instanceof ZodError) {
+      res.status(400).json({ error: "Invalid preset.", details: error });
+      return;
+    }
+    const message = error instanceof Error ? error.message : "Failed to save preset.";
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { regenerate, regenerateRequestSchema, type RegenerateBody } from "@/server/regenerate";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+
+  let body: RegenerateBody;
+  try {
+    body = regenerateRequestSchema.parse(req.body);
+  } catch (error) {
+    res.status(400).json({ error: "Invalid request body.", details: error });
+    return;
+  }
+
+  try {
+    res.status(200).json(await regenerate(body));
+  } catch (error) {
+    console.error("Regeneration failed:", error);
+    const message = error instanceof Error ? error.message : "Failed to regenerate.";
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import ArticleView, { ArticleExportButtons } from "@/components/ArticleView";
+import WordPressPublishPanel, { type WordPressPublication } from "@/components/WordPressPublishPanel";
+import type { Article, ArticleFigure } from "@/utils/article";
+
+interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  request: { productUrl: string; targetLocale: string; targetKeywords: string };
+  response: {
+    article: Article;
+    imageSet?: { images: ArticleFigure[] };
+    seo: { title: string; metaDescription: string };
+    llm: { provider: string; model: string; temperature: number };
+  };
+  wordpress?: WordPressPublication;
+}
+
+export default function HistoryDetail() {
+  const router = useRouter();
+  const [entry, setEntry] = useState<HistoryEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    fetch(`/api/history/${String(router.query.id)}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error ?? "Failed to load history entry");
+        }
+        setEntry(data as HistoryEntry);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Unknown error"));
+  }, [router.isReady, router.query.id]);
+
+  return (
+    <main className="mx-auto flex max-w-4xl flex-col gap-8 px-4 py-12 text-slate-100">
+      <Head>
+        <title>{entry ? entry.response.article.headline : "Article History"}</title>
+      </Head>
+      <Link href="/history" className="text-sm font-semibold text-accent hover:underline">
+        ← Article history
+      </Link>
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {entry && (
+        <>
+          <header className="flex flex-col gap-3">
+            <h1 className="text-3xl font-bold">{entry.response.article.headline}</h1>
+            <p className="break-all text-sm text-slate-400">
+              {new Date(entry.createdAt).toLocaleString()} · {entry.request.targetLocale} ·{" "}
+              {entry.response.llm.provider} ({entry.response.llm.model}) · {entry.request.productUrl}
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <Link
+                href={`/?history=${entry.id}`}
+                className="rounded-xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-accent"
+              >
+                Reopen
+              </Link>
+              <Link
+                href={`/?duplicate=${entry.id}`}
+                className="rounded-xl border border-slate-700 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-200 hover:border-accent"
+              >
+                Duplicate
+              </Link>
+              <ArticleExportButtons article={entry.response.article} figures={entry.response.imageSet?.images} />
+            </div>
+          </header>
+          <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+            <ArticleView article={entry.response.article} />
+          </section>
+          <WordPressPublishPanel historyId={entry.id} publication={entry.wordpress} />
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import clsx from "clsx";
+import { diffLines, type DiffLine } from "@/utils/diff";
+
+interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  response: { article: { headline: string }; exports: { markdown: string } };
+}
+
+const lineStyles: Record<DiffLine["type"], string> = {
+  same: "text-slate-400",
+  added: "bg-emerald-500/10 text-emerald-200",
+  removed: "bg-rose-500/10 text-rose-200"
+};
+
+const linePrefixes: Record<DiffLine["type"], string> = { same: " ", added: "+", removed: "-" };
+
+async function loadEntry(id: string): Promise<HistoryEntry> {
+  const response = await fetch(`/api/history/${id}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? "Failed to load history entry");
+  }
+  return data as HistoryEntry;
+}
+
+export default function HistoryDiff() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<[HistoryEntry, HistoryEntry] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    Promise.all([loadEntry(String(router.query.a)), loadEntry(String(router.query.b))])
+      .then(([a, b]) => setEntries(a.createdAt <= b.createdAt ? [a, b] : [b, a]))
+      .catch((err) => setError(err instanceof Error ? err.message : "Unknown error"));
+  }, [router.isReady, router.query.a, router.query.b]);
+
+  const lines = entries ? diffLines(entries[0].response.exports.markdown, entries[1].response.exports.markdown) : [];
+
+  return (
+    <main className="mx-auto flex max-w-6xl flex-col gap-8 px-4 py-12 text-slate-100">
+      <Head>
+        <title>Compare Articles</title>
+      </Head>
+      <Link href="/history" className="text-sm font-semibold text-accent hover:underline">
+        ← Article history
+      </Link>
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {entries && (
+        <>
+          <header className="grid gap-4 sm:grid-cols-2">
+            {entries.map((entry, index) => (
+              <div key={entry.id} className={index === 0 ? "text-rose-200" : "text-emerald-200"}>
+                <p className="text-xs uppercase tracking-wide text-slate-500">
+                  {index === 0 ? "Before" : "After"} · {new Date(entry.createdAt).toLocaleString()}
+                </p>
+                <Link href={`/history/${entry.id}`} className="text-lg font-semibold hover:underline">
+                  {entry.response.article.headline}
+                </Link>
+              </div>
+            ))}
+          </header>
+          <section className="overflow-x-auto rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+            <pre className="text-xs leading-relaxed">
+              {lines.map((line, index) => (
+                <div key={index} className={clsx("whitespace-pre-wrap px-2", lineStyles[line.type])}>
+                  {linePrefixes[line.type]} {line.text}
+                </div>
+              ))}
+            </pre>
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import clsx from "clsx";
+
+interface HistorySummary {
+  id: string;
+  createdAt: string;
+  productUrl: string;
+  title: string;
+  locale: string;
+  provider: string;
+  model: string;
+}
+
+export default function History() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<HistorySummary[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshEntries = useCallback(async () => {
+    const response = await fetch("/api/history");
+    if (response.ok) {
+      setEntries(((await response.json()) as { entries: HistorySummary[] }).entries);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refreshEntries().catch(() => setLoading(false));
+  }, [refreshEntries]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id].slice(-2)));
+  };
+
+  const remove = async (id: string) => {
+    await fetch(`/api/history/${id}`, { method: "DELETE" });
+    setSelected((prev) => prev.filter((entry) => entry !== id));
+    await refreshEntries();
+  };
+
+  return (
+    <main className="mx-auto flex max-w-6xl flex-col gap-8 px-4 py-12 text-slate-100">
+      <Head>
+        <title>Article History</title>
+      </Head>
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Article History</h1>
+          <p className="mt-2 text-slate-400">Reopen, duplicate, or compare every article generated on this server.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            disabled={selected.length !== 2}
+            onClick={() => router.push({ pathname: "/history/diff", query: { a: selected[0], b: selected[1] } })}
+            className={clsx(
+              "rounded-xl bg-primary px-6 py-3 text-sm font-semibold uppercase tracking-wider text-primary-foreground transition hover:bg-primary/80",
+              selected.length !== 2 && "cursor-not-allowed opacity-60"
+            )}
+          >
+            Compare Selected
+          </button>
+          <Link href="/" className="text-sm font-semibold text-accent hover:underline">
+            ← Generator
+          </Link>
+        </div>
+      </header>
+
+      <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+        {loading && <p className="text-sm text-slate-400">Loading history…</p>}
+        {!loading && entries.length === 0 && <p className="text-sm text-slate-400">No articles generated yet.</p>}
+        {entries.length > 0 && (
+          <table className="w-full text-left text-sm text-slate-300">
+            <thead className="text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="py-2 pr-3" />
+                <th className="py-2 pr-3">Article</th>
+                <th className="py-2 pr-3">Locale</th>
+                <th className="py-2 pr-3">Model</th>
+                <th className="py-2 pr-3">Created</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-t border-slate-800 align-top">
+                  <td className="py-2 pr-3">
+                    <input type="checkbox" checked={selected.includes(entry.id)} onChange={() => toggle(entry.id)} />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <Link href={`/history/${entry.id}`} className="font-semibold text-slate-100 hover:text-accent">
+                      {entry.title}
+                    </Link>
+                    <p className="break-all text-xs text-slate-500">{entry.productUrl}</p>
+                  </td>
+                  <td className="py-2 pr-3">{entry.locale}</td>
+                  <td className="py-2 pr-3">
+                    {entry.provider} · {entry.model}
+                  </td>
+                  <td className="py-2 pr-3">{new Date(entry.createdAt).toLocaleString()}</td>
+                  <td className="py-2 text-right">
+                    <div className="flex justify-end gap-3 text-xs font-semibold uppercase tracking-wide">
+                      <Link href={`/?history=${entry.id}`} className="hover:text-accent">
+                        Reopen
+                      </Link>
+                      <Link href={`/?duplicate=${entry.id}`} className="hover:text-accent">
+                        Duplicate
+                      </Link>
+                      <button type="button" className="uppercase hover:text-rose-300" onClick={() => remove(entry.id)}>
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </main>
+  );
+}
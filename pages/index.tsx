@@ -1,7 +1,21 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
 import clsx from "clsx";
 import { FunnelIcon, SparklesIcon, PhotoIcon } from "@heroicons/react/24/outline";
+import ArticleView, { ArticleExportButtons } from "@/components/ArticleView";
+import BatchPanel from "@/components/BatchPanel";
+import ComparisonPanel from "@/components/ComparisonPanel";
+import GeneratedImages, { type GeneratedImage } from "@/components/GeneratedImages";
+import GenerationProgress, { generationStages, type GenerationStage } from "@/components/GenerationProgress";
+import MultiLocalePanel from "@/components/MultiLocalePanel";
+import PresetPicker from "@/components/PresetPicker";
+import RegeneratePanel, { type RegenerationTarget } from "@/components/RegeneratePanel";
+import SpellCheckReview from "@/components/SpellCheckReview";
+import WordPressPublishPanel, { type WordPressPublication } from "@/components/WordPressPublishPanel";
+import type { SpellCheckFlag } from "@/server/spellcheck";
+import { applyPlainText, type Article } from "@/utils/article";
 
 type AffiliatePlatforms =
   | "amazon"
@@ -16,6 +30,26 @@ type AffiliatePlatforms =
 
 type AffiliateLinks = Record<AffiliatePlatforms, string>;
 
+type LlmProviderId = "openai" | "openai-compatible" | "mock";
+
+type ImageProviderId = "nano-banana" | "openai" | "stub";
+
+type ImageAspectRatio = "16:9" | "4:3" | "1:1";
+
+interface SchemaTypes {
+  product: boolean;
+  article: boolean;
+  faq: boolean;
+  breadcrumbs: boolean;
+}
+
+const schemaTypeLabels: Record<keyof SchemaTypes, string> = {
+  product: "Product, reviews & offers",
+  article: "Article for Discover",
+  faq: "FAQPage",
+  breadcrumbs: "BreadcrumbList"
+};
+
 interface GenerateRequest {
   productUrl: string;
   targetLocale: string;
@@ -24,9 +58,25 @@ interface GenerateRequest {
   tone: string;
   callToAction: string;
   geoPersona: string;
-  includeDiscoverySchema: boolean;
+  schemaTypes: SchemaTypes;
+  articleUrl: string;
+  authorName: string;
+  failOnSchemaErrors: boolean;
+  spellcheckMode: "rewrite" | "suggest";
   affiliateLinks: AffiliateLinks;
+  trackingTag: string;
   imageStyle: string;
+  imageOptions: {
+    provider: "" | ImageProviderId;
+    aspectRatio: ImageAspectRatio;
+    seed: string;
+    negativePrompt: string;
+  };
+  llm: {
+    provider: "" | LlmProviderId;
+    model: string;
+    temperature: string;
+  };
 }
 
 interface SeoMetadata {
@@ -44,8 +94,21 @@ interface ProductData {
   highlights?: string[];
   specifications?: Record<string, string>;
   price?: string;
+  currency?: string;
+  availability?: string;
   brand?: string;
   images?: string[];
+  gtin?: string;
+  sku?: string;
+  mpn?: string;
+  aggregateRating?: { ratingValue: number; reviewCount?: number };
+}
+
+interface SchemaIssue {
+  severity: "error" | "warning";
+  type: string;
+  path: string;
+  message: string;
 }
 
 interface ReviewItem {
@@ -56,18 +119,114 @@ interface ReviewItem {
 }
 
 interface GenerationResponse {
-  article: string;
+  article: Article;
+  exports: {
+    markdown: string;
+    html: string;
+  };
   seo: SeoMetadata;
   product: ProductData;
+  extraction: {
+    extractor: string;
+    structuredDataFields: string[];
+    fields: string[];
+    fallbackFields: string[];
+    renderMode?: "static" | "headless";
+    renderError?: string;
+    fetchedAt?: string;
+    cached?: boolean;
+    error?: string;
+  };
   reviews: ReviewItem[];
   affiliateLinks: AffiliateLinks;
+  affiliateReport: {
+    links: Array<{
+      platform: AffiliatePlatforms;
+      url: string;
+      source: "model" | "injector";
+      placement: "intro" | "verdict" | "end" | "model";
+    }>;
+    discarded: string[];
+  };
   discoverySchema: Record<string, unknown> | null;
-  images: Array<{ url: string; prompt: string }>;
+  schemaWarnings: string[];
+  schemaValidation: {
+    valid: boolean;
+    errors: SchemaIssue[];
+    warnings: SchemaIssue[];
+  } | null;
+  images: GeneratedImage[];
+  imageSet: {
+    images: Array<{
+      id: string;
+      source: "product" | "generated";
+      sourceUrl: string;
+      alt: string;
+      caption: string;
+      width: number;
+      height: number;
+      variants: Array<{ aspectRatio: string; format: string; url: string; width: number; height: number }>;
+    }>;
+    dropped: Array<{ url: string; reason: string }>;
+  };
+  llm: { provider: LlmProviderId; model: string; temperature: number };
+  diagnostics: {
+    attempts: number;
+    repairs: Array<{ path: string; message: string; resolution: "model" | "default" | "clamped" | "dropped" }>;
+  };
+  compliance: {
+    disclosure: { required: boolean; present: boolean; standard: string | null };
+    issues: Array<{
+      type: "missing-disclosure" | "superlative" | "price-claim";
+      severity: "error" | "warning";
+      excerpt: string;
+      message: string;
+    }>;
+  };
   spellcheck: {
+    corrected: string;
     corrections: Array<{ original: string; suggestion: string }>;
+    flags: SpellCheckFlag[];
+    locale: string;
+    dictionary: string | null;
+    mode: "rewrite" | "suggest" | "report-only";
+  };
+  factCheck: {
+    claims: Array<{
+      text: string;
+      excerpt: string;
+      source: "article" | "review";
+      kind: string;
+      status: "supported" | "contradicted" | "unverifiable";
+      evidence?: string;
+    }>;
+    counts: { supported: number; contradicted: number; unverifiable: number };
+  };
+  seoAudit: {
+    score: number;
+    checks: Array<{ id: string; label: string; status: "pass" | "warn" | "fail"; weight: number; detail: string }>;
+    keywords: Array<{ keyword: string; count: number; density: number }>;
+    readability: { formula: string; score: number; wordsPerSentence: number; syllablesPerWord: number };
   };
+  historyId?: string;
+  wordpress?: WordPressPublication;
 }
 
+type StreamEvent =
+  | ({ type: "scrape" } & Pick<GenerationResponse, "product" | "extraction">)
+  | { type: "token"; text: string; attempt: number }
+  | ({ type: "draft" } & Pick<GenerationResponse, "seo" | "reviews" | "llm" | "diagnostics">)
+  | ({ type: "spellcheck" } & Pick<GenerationResponse, "spellcheck">)
+  | ({ type: "article" } & Pick<
+      GenerationResponse,
+      "article" | "exports" | "affiliateReport" | "compliance" | "factCheck"
+    >)
+  | ({ type: "images" } & Pick<GenerationResponse, "images" | "imageSet" | "exports">)
+  | ({ type: "audit" } & Pick<GenerationResponse, "seoAudit">)
+  | ({ type: "schema" } & Pick<GenerationResponse, "discoverySchema" | "schemaWarnings" | "schemaValidation">)
+  | { type: "result"; result: GenerationResponse }
+  | { type: "error"; error: string };
+
 const defaultAffiliateLinks: AffiliateLinks = {
   amazon: "",
   mercadoLivre: "",
@@ -80,22 +239,100 @@ const defaultAffiliateLinks: AffiliateLinks = {
   braip: ""
 };
 
+function buildRequestBody(form: GenerateRequest) {
+  return {
+    ...form,
+    articleUrl: form.articleUrl || undefined,
+    imageOptions: {
+      provider: form.imageOptions.provider || undefined,
+      aspectRatio: form.imageOptions.aspectRatio,
+      seed: form.imageOptions.seed === "" ? undefined : Number(form.imageOptions.seed),
+      negativePrompt: form.imageOptions.negativePrompt.trim() || undefined
+    },
+    llm: {
+      provider: form.llm.provider || undefined,
+      model: form.llm.model.trim() || undefined,
+      temperature: form.llm.temperature === "" ? undefined : Number(form.llm.temperature)
+    }
+  };
+}
+
+type RequestBody = ReturnType<typeof buildRequestBody>;
+
+function formFromRequest(request: Partial<RequestBody>, base: GenerateRequest): GenerateRequest {
+  return {
+    ...base,
+    ...request,
+    articleUrl: request.articleUrl ?? base.articleUrl,
+    schemaTypes: { ...base.schemaTypes, ...request.schemaTypes },
+    affiliateLinks: { ...base.affiliateLinks, ...request.affiliateLinks },
+    imageOptions: {
+      provider: request.imageOptions?.provider ?? base.imageOptions.provider,
+      aspectRatio: request.imageOptions?.aspectRatio ?? base.imageOptions.aspectRatio,
+      seed: request.imageOptions?.seed === undefined ? base.imageOptions.seed : String(request.imageOptions.seed),
+      negativePrompt: request.imageOptions?.negativePrompt ?? base.imageOptions.negativePrompt
+    },
+    llm: {
+      provider: request.llm?.provider ?? base.llm.provider,
+      model: request.llm?.model ?? base.llm.model,
+      temperature: request.llm?.temperature === undefined ? base.llm.temperature : String(request.llm.temperature)
+    }
+  };
+}
+
+const defaultForm: GenerateRequest = {
+  productUrl: "",
+  targetLocale: "pt-BR",
+  targetKeywords: "",
+  outlineStyle: "Conversion-focused review with FAQ",
+  tone: "Trustworthy expert with enthusiasm",
+  callToAction: "Encourage readers to buy via affiliate links with urgency and honesty.",
+  geoPersona: "Brazilian consumer searching for reliable product reviews with localized context.",
+  schemaTypes: { product: true, article: true, faq: true, breadcrumbs: true },
+  articleUrl: "",
+  authorName: "Editorial Team",
+  failOnSchemaErrors: false,
+  spellcheckMode: "rewrite",
+  affiliateLinks: defaultAffiliateLinks,
+  trackingTag: "review-article",
+  imageStyle: "Cinematic, product-focused, high-contrast lighting",
+  imageOptions: { provider: "", aspectRatio: "4:3", seed: "", negativePrompt: "" },
+  llm: { provider: "", model: "", temperature: "" }
+};
+
 export default function Home() {
-  const [form, setForm] = useState<GenerateRequest>({
-    productUrl: "",
-    targetLocale: "pt-BR",
-    targetKeywords: "",
-    outlineStyle: "Conversion-focused review with FAQ",
-    tone: "Trustworthy expert with enthusiasm",
-    callToAction: "Encourage readers to buy via affiliate links with urgency and honesty.",
-    geoPersona: "Brazilian consumer searching for reliable product reviews with localized context.",
-    includeDiscoverySchema: true,
-    affiliateLinks: defaultAffiliateLinks,
-    imageStyle: "Cinematic, product-focused, high-contrast lighting"
-  });
+  const router = useRouter();
+  const [form, setForm] = useState<GenerateRequest>(defaultForm);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<GenerationResponse | null>(null);
+  const [result, setResult] = useState<Partial<GenerationResponse> | null>(null);
+  const [review, setReview] = useState<{ article: Article; corrected: string; flags: SpellCheckFlag[] } | null>(null);
+  const reviewedArticle = review?.article ?? null;
+  const [completedStages, setCompletedStages] = useState<GenerationStage[]>([]);
+  const [draftPreview, setDraftPreview] = useState({ attempt: 0, text: "" });
+
+  useEffect(() => {
+    const historyId = router.query.history ?? router.query.duplicate;
+    if (!router.isReady || typeof historyId !== "string") return;
+    fetch(`/api/history/${historyId}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error("History entry not found");
+        }
+        const entry = (await response.json()) as {
+          request: Partial<RequestBody>;
+          response: GenerationResponse;
+          wordpress?: WordPressPublication;
+        };
+        setForm(formFromRequest(entry.request, defaultForm));
+        if (router.query.history) {
+          setResult({ ...entry.response, historyId, wordpress: entry.wordpress });
+          setReview(null);
+          setCompletedStages(generationStages.map((stage) => stage.id));
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Unknown error"));
+  }, [router.isReady, router.query.history, router.query.duplicate]);
 
   const handleAffiliateChange = (platform: AffiliatePlatforms, value: string) => {
     setForm((prev) => ({
@@ -104,28 +341,97 @@ export default function Home() {
     }));
   };
 
+  const handleStreamEvent = (event: StreamEvent) => {
+    if (event.type === "error") {
+      throw new Error(event.error);
+    }
+    if (event.type === "token") {
+      setDraftPreview((prev) =>
+        prev.attempt === event.attempt
+          ? { ...prev, text: prev.text + event.text }
+          : { attempt: event.attempt, text: event.text }
+      );
+      return;
+    }
+    if (event.type === "result") {
+      setResult(event.result);
+      setCompletedStages(generationStages.map((stage) => stage.id));
+      return;
+    }
+    const { type, ...fields } = event;
+    setResult((prev) => ({ ...prev, ...fields }));
+    if (event.type === "article") {
+      setReview(null);
+    }
+    if (generationStages.some((stage) => stage.id === type)) {
+      setCompletedStages((prev) => [...prev, type as GenerationStage]);
+    }
+  };
+
+  const handleRegenerate = async (target: RegenerationTarget, instruction: string) => {
+    const response = await fetch("/api/regenerate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        request: buildRequestBody(form),
+        target,
+        instruction: instruction.trim() || undefined,
+        current:
+          review && result?.spellcheck
+            ? {
+                ...result,
+                article: review.article,
+                spellcheck: { ...result.spellcheck, corrected: review.corrected, flags: review.flags }
+              }
+            : result
+      })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error ?? "Failed to regenerate");
+    }
+    const { patch, llm } = data as { patch: Partial<GenerationResponse>; llm: GenerationResponse["llm"] };
+    setResult((prev) => ({ ...prev, ...patch }));
+    if (patch.article) {
+      setReview(null);
+    }
+    return `Regenerated with ${llm.provider} · ${llm.model}.`;
+  };
+
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     setLoading(true);
     setError(null);
     setResult(null);
+    setReview(null);
+    setCompletedStages([]);
+    setDraftPreview({ attempt: 0, text: "" });
 
     try {
-      const response = await fetch("/api/generate", {
+      const response = await fetch("/api/generate-stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json"
         },
-        body: JSON.stringify(form)
+        body: JSON.stringify(buildRequestBody(form))
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const message = await response.text();
         throw new Error(message || "Failed to generate article");
       }
 
-      const data: GenerationResponse = await response.json();
-      setResult(data);
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.filter(Boolean).forEach((line) => handleStreamEvent(JSON.parse(line) as StreamEvent));
+        if (done) break;
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
@@ -148,6 +454,9 @@ export default function Home() {
             and embedded affiliate touchpoints. Paste any product link, tune target keywords, and let the generator pull specs,
             craft credible reviews, and deliver deploy-ready content.
           </p>
+          <Link href="/history" className="text-sm font-semibold text-accent hover:underline">
+            Browse article history →
+          </Link>
         </header>
 
         <section className="grid gap-8 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,1fr)]">
@@ -160,6 +469,11 @@ export default function Home() {
               <span className="text-lg font-semibold">Content briefing</span>
             </div>
 
+            <PresetPicker
+              brief={{ ...buildRequestBody(form), productUrl: undefined }}
+              onApply={(brief) => setForm((prev) => formFromRequest(brief, prev))}
+            />
+
             <label className="flex flex-col gap-2">
               <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
                 Product URL
@@ -264,23 +578,97 @@ export default function Home() {
               />
             </label>
 
+            <fieldset className="flex flex-col gap-3">
+              <legend className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                Discovery Schema
+              </legend>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {(Object.keys(schemaTypeLabels) as Array<keyof SchemaTypes>).map((type) => (
+                  <label key={type} className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={form.schemaTypes[type]}
+                      onChange={(event) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          schemaTypes: { ...prev.schemaTypes, [type]: event.target.checked }
+                        }))
+                      }
+                      className="h-5 w-5 rounded border-slate-700 bg-slate-900 text-accent focus:ring-accent"
+                    />
+                    <span className="text-sm text-slate-200">{schemaTypeLabels[type]}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Article URL
+                </span>
+                <input
+                  type="url"
+                  placeholder="https://your-site.com/reviews/product"
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.articleUrl}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, articleUrl: event.target.value }))
+                  }
+                />
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Author
+                </span>
+                <input
+                  type="text"
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.authorName}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, authorName: event.target.value }))
+                  }
+                />
+              </label>
+            </div>
+
             <label className="flex items-center gap-3">
               <input
                 type="checkbox"
-                checked={form.includeDiscoverySchema}
+                checked={form.failOnSchemaErrors}
+                disabled={!Object.values(form.schemaTypes).some(Boolean)}
                 onChange={(event) =>
                   setForm((prev) => ({
                     ...prev,
-                    includeDiscoverySchema: event.target.checked
+                    failOnSchemaErrors: event.target.checked
                   }))
                 }
                 className="h-5 w-5 rounded border-slate-700 bg-slate-900 text-accent focus:ring-accent"
               />
               <span className="text-sm text-slate-200">
-                Generate Google Discover & Merchant compatible schema.
+                Fail generation when the schema has rich results errors.
               </span>
             </label>
 
+            <label className="flex flex-col gap-2">
+              <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                Spell Check
+              </span>
+              <select
+                className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                value={form.spellcheckMode}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    spellcheckMode: event.target.value as GenerateRequest["spellcheckMode"]
+                  }))
+                }
+              >
+                <option value="rewrite">Rewrite automatically</option>
+                <option value="suggest">Suggest only, review each correction</option>
+              </select>
+            </label>
+
             <div className="flex items-center gap-3 pt-4 text-slate-200">
               <FunnelIcon className="h-6 w-6 text-accent" />
               <span className="text-lg font-semibold">Affiliate links</span>
@@ -305,9 +693,24 @@ export default function Home() {
               ))}
             </div>
 
+            <label className="flex flex-col gap-2">
+              <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                Tracking Tag
+              </span>
+              <input
+                type="text"
+                pattern="[A-Za-z0-9_-]{1,64}"
+                className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                value={form.trackingTag}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, trackingTag: event.target.value }))
+                }
+              />
+            </label>
+
             <div className="flex items-center gap-3 pt-4 text-slate-200">
               <PhotoIcon className="h-6 w-6 text-accent" />
-              <span className="text-lg font-semibold">Nano Banana imagery</span>
+              <span className="text-lg font-semibold">Imagery</span>
             </div>
 
             <label className="flex flex-col gap-2">
@@ -324,6 +727,139 @@ export default function Home() {
               />
             </label>
 
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Image Provider
+                </span>
+                <select
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.imageOptions.provider}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      imageOptions: {
+                        ...prev.imageOptions,
+                        provider: event.target.value as GenerateRequest["imageOptions"]["provider"]
+                      }
+                    }))
+                  }
+                >
+                  <option value="">Server default</option>
+                  <option value="nano-banana">Nano Banana</option>
+                  <option value="openai">OpenAI Images</option>
+                  <option value="stub">Local stub</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Aspect Ratio
+                </span>
+                <select
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.imageOptions.aspectRatio}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      imageOptions: { ...prev.imageOptions, aspectRatio: event.target.value as ImageAspectRatio }
+                    }))
+                  }
+                >
+                  <option value="16:9">16:9</option>
+                  <option value="4:3">4:3</option>
+                  <option value="1:1">1:1</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Seed
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  placeholder="Random"
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.imageOptions.seed}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, imageOptions: { ...prev.imageOptions, seed: event.target.value } }))
+                  }
+                />
+              </label>
+            </div>
+
+            <label className="flex flex-col gap-2">
+              <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                Negative Prompt
+              </span>
+              <input
+                type="text"
+                placeholder="text, watermark, extra hands"
+                className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                value={form.imageOptions.negativePrompt}
+                onChange={(event) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    imageOptions: { ...prev.imageOptions, negativePrompt: event.target.value }
+                  }))
+                }
+              />
+            </label>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  LLM Provider
+                </span>
+                <select
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.llm.provider}
+                  onChange={(event) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      llm: { ...prev.llm, provider: event.target.value as GenerateRequest["llm"]["provider"] }
+                    }))
+                  }
+                >
+                  <option value="">Server default</option>
+                  <option value="openai">OpenAI</option>
+                  <option value="openai-compatible">OpenAI-compatible</option>
+                  <option value="mock">Offline mock</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Model
+                </span>
+                <input
+                  type="text"
+                  placeholder="Provider default"
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.llm.model}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, llm: { ...prev.llm, model: event.target.value } }))
+                  }
+                />
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className="text-sm font-medium uppercase tracking-wide text-slate-400">
+                  Temperature
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  placeholder="0.5"
+                  className="rounded-xl border border-slate-800 bg-slate-950 px-4 py-3 text-slate-100 outline-none focus:border-accent focus:ring-2 focus:ring-accent/40"
+                  value={form.llm.temperature}
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, llm: { ...prev.llm, temperature: event.target.value } }))
+                  }
+                />
+              </label>
+            </div>
+
             <button
               type="submit"
               disabled={loading}
@@ -352,74 +888,416 @@ export default function Home() {
                 <li>4. Download the article or copy HTML & schema snippets ready for CMS or Vercel deployment.</li>
               </ol>
             </div>
+            {(loading || completedStages.length > 0) && (
+              <GenerationProgress completed={completedStages} running={loading} draftPreview={draftPreview.text} />
+            )}
             {result && (
               <div className="flex flex-col gap-6">
-                <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
-                  <h2 className="text-lg font-semibold text-slate-100">Generated Article</h2>
-                  <article className="mt-4 space-y-4 text-slate-200">
-                    {result.article.split("\n").map((paragraph, index) => (
-                      <p key={index}>{paragraph}</p>
-                    ))}
-                  </article>
-                </section>
-                <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
-                  <h3 className="text-lg font-semibold text-slate-100">SEO Metadata</h3>
-                  <dl className="mt-4 space-y-3 text-sm text-slate-300">
-                    <div>
-                      <dt className="font-semibold text-slate-200">Title</dt>
-                      <dd>{result.seo.title}</dd>
-                    </div>
-                    <div>
-                      <dt className="font-semibold text-slate-200">Meta Description</dt>
-                      <dd>{result.seo.metaDescription}</dd>
-                    </div>
-                    <div>
-                      <dt className="font-semibold text-slate-200">Keywords</dt>
-                      <dd>{result.seo.keywords.join(", ")}</dd>
-                    </div>
-                    <div>
-                      <dt className="font-semibold text-slate-200">OG Title</dt>
-                      <dd>{result.seo.ogTitle}</dd>
+                {result.article && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <h2 className="text-lg font-semibold text-slate-100">Generated Article</h2>
+                        {result.llm && (
+                          <p className="text-xs text-slate-500">
+                            Drafted by {result.llm.provider} · {result.llm.model} · temperature{" "}
+                            {result.llm.temperature}
+                          </p>
+                        )}
+                      </div>
+                      <ArticleExportButtons
+                        article={reviewedArticle ?? result.article}
+                        figures={result.imageSet?.images}
+                      />
                     </div>
-                    <div>
-                      <dt className="font-semibold text-slate-200">OG Description</dt>
-                      <dd>{result.seo.ogDescription}</dd>
+                    <ArticleView
+                      article={reviewedArticle ?? result.article}
+                      highlights={result.factCheck?.claims
+                        .filter((claim) => claim.status === "contradicted")
+                        .map((claim) => claim.text)}
+                    />
+                  </section>
+                )}
+                {result.article && result.seo && result.reviews && result.images && result.spellcheck && !loading && (
+                  <RegeneratePanel sections={result.article.sections} onRegenerate={handleRegenerate} />
+                )}
+                {result.historyId && result.article && result.seo && !loading && (
+                  <WordPressPublishPanel
+                    key={result.historyId}
+                    historyId={result.historyId}
+                    publication={result.wordpress}
+                    current={{
+                      article: reviewedArticle ?? result.article,
+                      seo: result.seo,
+                      imageSet: result.imageSet,
+                      discoverySchema: result.discoverySchema ?? null
+                    }}
+                  />
+                )}
+                {result.product && result.extraction && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <h3 className="text-lg font-semibold text-slate-100">Scraped Product</h3>
+                    <dl className="mt-4 space-y-3 text-sm text-slate-300">
+                      <div>
+                        <dt className="font-semibold text-slate-200">Extractor</dt>
+                        <dd>{result.extraction.extractor}</dd>
+                      </div>
+                      {result.extraction.renderMode && (
+                        <div>
+                          <dt className="font-semibold text-slate-200">Render mode</dt>
+                          <dd>
+                            {result.extraction.renderMode === "headless" ? "Headless browser" : "Static HTML"}
+                            {result.extraction.renderError && (
+                              <span className="block text-xs text-amber-300">
+                                Headless fallback unavailable: {result.extraction.renderError}
+                              </span>
+                            )}
+                          </dd>
+                        </div>
+                      )}
+                      {result.extraction.error && (
+                        <div>
+                          <dt className="font-semibold text-rose-300">Fetch failed</dt>
+                          <dd className="text-rose-200">{result.extraction.error}</dd>
+                        </div>
+                      )}
+                      {result.extraction.fetchedAt && (
+                        <div>
+                          <dt className="font-semibold text-slate-200">Fetched</dt>
+                          <dd>
+                            {new Date(result.extraction.fetchedAt).toLocaleString()}
+                            {result.extraction.cached && " (cached)"}
+                          </dd>
+                        </div>
+                      )}
+                      {result.extraction.structuredDataFields.length > 0 && (
+                        <div>
+                          <dt className="font-semibold text-slate-200">From JSON-LD / microdata</dt>
+                          <dd>{result.extraction.structuredDataFields.join(", ")}</dd>
+                        </div>
+                      )}
+                      <div>
+                        <dt className="font-semibold text-slate-200">Fields</dt>
+                        <dd>{result.extraction.fields.join(", ") || "None"}</dd>
+                      </div>
+                      <div>
+                        <dt className="font-semibold text-slate-200">Identifiers</dt>
+                        <dd>
+                          {[
+                            result.product.gtin && `GTIN ${result.product.gtin}`,
+                            result.product.sku && `SKU ${result.product.sku}`,
+                            result.product.mpn && `MPN ${result.product.mpn}`
+                          ]
+                            .filter(Boolean)
+                            .join(" · ") || "None"}
+                        </dd>
+                      </div>
+                      {result.extraction.fallbackFields.length > 0 && (
+                        <div>
+                          <dt className="font-semibold text-slate-200">Filled by generic fallback</dt>
+                          <dd>{result.extraction.fallbackFields.join(", ")}</dd>
+                        </div>
+                      )}
+                    </dl>
+                  </section>
+                )}
+                {result.seo && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <h3 className="text-lg font-semibold text-slate-100">SEO Metadata</h3>
+                    <dl className="mt-4 space-y-3 text-sm text-slate-300">
+                      <div>
+                        <dt className="font-semibold text-slate-200">Title</dt>
+                        <dd>{result.seo.title}</dd>
+                      </div>
+                      <div>
+                        <dt className="font-semibold text-slate-200">Meta Description</dt>
+                        <dd>{result.seo.metaDescription}</dd>
+                      </div>
+                      <div>
+                        <dt className="font-semibold text-slate-200">Keywords</dt>
+                        <dd>{result.seo.keywords.join(", ")}</dd>
+                      </div>
+                      <div>
+                        <dt className="font-semibold text-slate-200">OG Title</dt>
+                        <dd>{result.seo.ogTitle}</dd>
+                      </div>
+                      <div>
+                        <dt className="font-semibold text-slate-200">OG Description</dt>
+                        <dd>{result.seo.ogDescription}</dd>
+                      </div>
+                    </dl>
+                  </section>
+                )}
+                {result.factCheck && result.factCheck.claims.length > 0 && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <h3 className="text-lg font-semibold text-slate-100">Fact Check</h3>
+                    <p className="mt-2 text-xs text-slate-500">
+                      {result.factCheck.counts.supported} supported · {result.factCheck.counts.contradicted}{" "}
+                      contradicted · {result.factCheck.counts.unverifiable} unverifiable against the scraped product
+                      data. Contradicted claims are highlighted in the article; fix them before publishing.
+                    </p>
+                    <ul className="mt-4 space-y-3 text-sm text-slate-300">
+                      {result.factCheck.claims
+                        .filter((claim) => claim.status !== "supported")
+                        .map((claim, index) => (
+                          <li key={`${claim.text}-${index}`}>
+                            <span
+                              className={clsx(
+                                "font-semibold",
+                                claim.status === "contradicted" ? "text-rose-300" : "text-amber-300"
+                              )}
+                            >
+                              {claim.text}
+                            </span>{" "}
+                            {claim.status} in the {claim.source}: “{claim.excerpt}”
+                            {claim.evidence && (
+                              <span className="block text-xs text-slate-500">Scraped: {claim.evidence}</span>
+                            )}
+                          </li>
+                        ))}
+                    </ul>
+                  </section>
+                )}
+                {result.seoAudit && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <div className="flex items-center justify-between gap-3">
+                      <h3 className="text-lg font-semibold text-slate-100">SEO Audit</h3>
+                      <span
+                        className={clsx(
+                          "text-2xl font-bold",
+                          result.seoAudit.score >= 80
+                            ? "text-emerald-300"
+                            : result.seoAudit.score >= 50
+                              ? "text-amber-300"
+                              : "text-rose-300"
+                        )}
+                      >
+                        {result.seoAudit.score}/100
+                      </span>
                     </div>
-                  </dl>
-                </section>
+                    <ul className="mt-4 space-y-2 text-sm text-slate-300">
+                      {result.seoAudit.checks.map((check) => (
+                        <li key={check.id}>
+                          <span
+                            className={clsx(
+                              "font-semibold",
+                              check.status === "pass"
+                                ? "text-emerald-300"
+                                : check.status === "warn"
+                                  ? "text-amber-300"
+                                  : "text-rose-300"
+                            )}
+                          >
+                            {check.status === "pass" ? "✓" : check.status === "warn" ? "!" : "✗"} {check.label}
+                          </span>{" "}
+                          {check.detail}
+                        </li>
+                      ))}
+                    </ul>
+                    {result.seoAudit.keywords.length > 0 && (
+                      <p className="mt-4 text-xs text-slate-500">
+                        Keyword density:{" "}
+                        {result.seoAudit.keywords
+                          .map((keyword) => `${keyword.keyword} ${keyword.density}% (${keyword.count}×)`)
+                          .join(" · ")}
+                      </p>
+                    )}
+                  </section>
+                )}
+                {result.compliance &&
+                  (result.compliance.disclosure.required || result.compliance.issues.length > 0) && (
+                    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                      <h3 className="text-lg font-semibold text-slate-100">Compliance</h3>
+                      {result.compliance.disclosure.required && (
+                        <p className="mt-2 text-xs text-slate-500">
+                          {result.compliance.disclosure.standard} disclosure{" "}
+                          {result.compliance.disclosure.present ? "included near the top." : "missing."}
+                        </p>
+                      )}
+                      <ul className="mt-4 space-y-2 text-sm text-slate-300">
+                        {result.compliance.issues.map((issue, index) => (
+                          <li key={`${issue.type}-${index}`}>
+                            <span
+                              className={clsx(
+                                "font-semibold",
+                                issue.severity === "error" ? "text-rose-300" : "text-amber-300"
+                              )}
+                            >
+                              “{issue.excerpt}”
+                            </span>{" "}
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </section>
+                  )}
+                {result.affiliateReport && result.affiliateReport.links.length > 0 && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <h3 className="text-lg font-semibold text-slate-100">Affiliate Links</h3>
+                    <ul className="mt-4 space-y-2 text-sm text-slate-300">
+                      {result.affiliateReport.links.map((link) => (
+                        <li key={link.platform}>
+                          <span className="font-semibold text-slate-200">{link.platform}</span>{" "}
+                          {link.source === "model" ? "placed by the model" : `injected (${link.placement})`}
+                        </li>
+                      ))}
+                    </ul>
+                    {result.affiliateReport.discarded.length > 0 && (
+                      <p className="mt-3 text-xs text-rose-300">
+                        Removed unknown CTA links: {result.affiliateReport.discarded.join(", ")}
+                      </p>
+                    )}
+                  </section>
+                )}
                 {result.discoverySchema && (
                   <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
                     <h3 className="text-lg font-semibold text-slate-100">Discovery JSON-LD</h3>
+                    {result.schemaValidation && (
+                      <div className="mt-2 space-y-2 text-xs">
+                        <p className={result.schemaValidation.valid ? "text-emerald-300" : "text-rose-300"}>
+                          {result.schemaValidation.valid
+                            ? "Passes rich results checks."
+                            : `${result.schemaValidation.errors.length} rich results error(s).`}{" "}
+                          {result.schemaValidation.warnings.length > 0 &&
+                            `${result.schemaValidation.warnings.length} warning(s).`}
+                        </p>
+                        <ul className="space-y-1">
+                          {[...result.schemaValidation.errors, ...result.schemaValidation.warnings].map(
+                            (issue, index) => (
+                              <li
+                                key={`${issue.path}-${index}`}
+                                className={issue.severity === "error" ? "text-rose-300" : "text-amber-300"}
+                              >
+                                <span className="font-mono text-slate-400">{issue.path}</span> {issue.type}:{" "}
+                                {issue.message}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      </div>
+                    )}
+                    {result.schemaWarnings && result.schemaWarnings.length > 0 && (
+                      <ul className="mt-2 space-y-1 text-xs text-amber-300">
+                        {result.schemaWarnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
                     <pre className="mt-4 max-h-72 overflow-auto rounded-xl bg-slate-900 p-4 text-xs text-slate-300">
                       {JSON.stringify(result.discoverySchema, null, 2)}
                     </pre>
                   </section>
                 )}
-                {result.images.length > 0 && (
+                {result.imageSet && (result.imageSet.images.length > 0 || result.imageSet.dropped.length > 0) && (
                   <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
-                    <h3 className="text-lg font-semibold text-slate-100">Nano Banana Shots</h3>
+                    <h3 className="text-lg font-semibold text-slate-100">Article Images</h3>
+                    <p className="mt-2 text-xs text-slate-500">
+                      1200px 16:9, 4:3, and 1:1 crops in WebP and AVIF, used by the exports and the JSON-LD.
+                    </p>
                     <div className="mt-4 grid gap-4">
-                      {result.images.map((image) => (
-                        <figure key={image.url} className="space-y-2 rounded-xl border border-slate-800 bg-slate-900 p-4">
-                          <img
-                            src={image.url}
-                            alt={image.prompt}
-                            className="h-40 w-full rounded-lg object-cover"
-                          />
-                          <figcaption className="text-xs text-slate-400">{image.prompt}</figcaption>
-                        </figure>
-                      ))}
+                      {result.imageSet.images.map((image) => {
+                        const preview =
+                          image.variants.find((variant) => variant.aspectRatio === "16:9" && variant.format === "webp") ??
+                          image.variants[0];
+                        return (
+                          <figure key={image.id} className="space-y-2 rounded-xl border border-slate-800 bg-slate-900 p-4">
+                            {preview && (
+                              <img src={preview.url} alt={image.alt} className="w-full rounded-lg object-cover" />
+                            )}
+                            <figcaption className="space-y-1 text-xs text-slate-400">
+                              <p className="text-slate-200">{image.caption}</p>
+                              <p>
+                                <span className="font-semibold text-slate-300">Alt:</span> {image.alt}
+                              </p>
+                              <p>
+                                {image.source === "product" ? "Product photo" : "Generated"} · {image.width}x
+                                {image.height} source ·{" "}
+                                {image.variants.map((variant) => (
+                                  <a
+                                    key={variant.url}
+                                    href={variant.url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="mr-2 text-accent hover:underline"
+                                  >
+                                    {variant.aspectRatio} {variant.format}
+                                  </a>
+                                ))}
+                              </p>
+                            </figcaption>
+                          </figure>
+                        );
+                      })}
                     </div>
+                    {result.imageSet.dropped.length > 0 && (
+                      <ul className="mt-4 list-disc space-y-1 pl-5 text-xs text-slate-500">
+                        {result.imageSet.dropped.map((entry) => (
+                          <li key={entry.url} className="break-all">
+                            Skipped {entry.url}: {entry.reason}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </section>
+                )}
+                {result.images && result.images.length > 0 && (
+                  <GeneratedImages images={result.images} onRegenerate={handleRegenerate} />
+                )}
+                {result.article && result.spellcheck?.mode === "suggest" && result.spellcheck.flags.length > 0 && (
+                  <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                    <h3 className="text-lg font-semibold text-slate-100">Spell Check Review</h3>
+                    <p className="mt-2 text-xs text-slate-500">
+                      {`${result.spellcheck.dictionary} (${result.spellcheck.locale})`}: accept, reject, or pick a
+                      candidate for each highlighted word. The article above updates as you decide.
+                    </p>
+                    <SpellCheckReview
+                      key={result.spellcheck.corrected}
+                      text={result.spellcheck.corrected}
+                      flags={result.spellcheck.flags}
+                      onChange={(text, flags) =>
+                        result.article &&
+                        setReview({ article: applyPlainText(result.article, text), corrected: text, flags })
+                      }
+                    />
                   </section>
                 )}
-                {result.spellcheck.corrections.length > 0 && (
+                {result.spellcheck &&
+                  (result.spellcheck.corrections.length > 0 || result.spellcheck.mode === "report-only") && (
+                    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
+                      <h3 className="text-lg font-semibold text-slate-100">Spell Check Corrections</h3>
+                      <p className="mt-2 text-xs text-slate-500">
+                        {result.spellcheck.dictionary
+                          ? `${result.spellcheck.dictionary} (${result.spellcheck.locale})`
+                          : `No dictionary for ${result.spellcheck.locale}: report-only, nothing was rewritten.`}
+                      </p>
+                      <ul className="mt-4 space-y-2 text-sm text-slate-300">
+                        {result.spellcheck.corrections.map((item, index) => (
+                          <li key={`${item.original}-${index}`}>
+                            <span className="font-semibold text-slate-200">{item.original}</span> →{" "}
+                            <span>{item.suggestion}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </section>
+                  )}
+                {result.diagnostics && result.diagnostics.repairs.length > 0 && (
                   <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-6 shadow-lg shadow-primary/10">
-                    <h3 className="text-lg font-semibold text-slate-100">Spell Check Corrections</h3>
+                    <h3 className="text-lg font-semibold text-slate-100">Draft Diagnostics</h3>
+                    <p className="mt-2 text-xs text-slate-500">
+                      {result.diagnostics.attempts} model attempt(s); invalid fields were repaired as listed.
+                    </p>
                     <ul className="mt-4 space-y-2 text-sm text-slate-300">
-                      {result.spellcheck.corrections.map((item, index) => (
-                        <li key={`${item.original}-${index}`}>
-                          <span className="font-semibold text-slate-200">{item.original}</span> →{" "}
-                          <span>{item.suggestion}</span>
+                      {result.diagnostics.repairs.map((repair, index) => (
+                        <li key={`${repair.path}-${index}`}>
+                          <span
+                            className={clsx(
+                              "font-semibold",
+                              repair.resolution === "model" ? "text-slate-200" : "text-amber-300"
+                            )}
+                          >
+                            {repair.path}
+                          </span>{" "}
+                          {repair.message} ({repair.resolution === "model" ? "fixed by the model" : repair.resolution})
                         </li>
                       ))}
                     </ul>
@@ -429,6 +1307,10 @@ export default function Home() {
             )}
           </aside>
         </section>
+
+        <MultiLocalePanel brief={{ ...buildRequestBody(form), targetLocale: undefined, articleUrl: undefined }} />
+        <BatchPanel brief={{ ...buildRequestBody(form), productUrl: undefined }} />
+        <ComparisonPanel brief={{ ...buildRequestBody(form), productUrl: undefined, affiliateLinks: undefined }} />
       </main>
     </div>
   );
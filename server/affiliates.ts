@@ -0,0 +1,287 @@
+import { z } from "zod";
+import type { Article, ArticleBlock } from "@/utils/article";
+
+export type AffiliatePlatform =
+  | "amazon"
+  | "mercadoLivre"
+  | "shopee"
+  | "magalu"
+  | "clickbank"
+  | "hotmart"
+  | "eduzz"
+  | "kiwify"
+  | "braip";
+
+export type AffiliateLinks = Record<AffiliatePlatform, string>;
+
+type CtaPlacement = "intro" | "verdict" | "end";
+
+export interface AffiliateLinkReport {
+  platform: AffiliatePlatform;
+  url: string;
+  source: "model" | "injector";
+  placement: CtaPlacement | "model";
+}
+
+interface PlatformRule {
+  name: string;
+  hosts: RegExp;
+  required?: { param: string; message: string };
+  subIdParam?: string;
+}
+
+const platformRules: Record<AffiliatePlatform, PlatformRule> = {
+  amazon: {
+    name: "Amazon",
+    hosts: /(^|\.)amazon\.(com|com\.br|com\.mx|es|co\.uk|de|fr|it|ca)$|^amzn\.to$/,
+    required: { param: "tag", message: "Amazon links must carry your Associates tag (?tag=...)." },
+    subIdParam: "ascsubtag"
+  },
+  mercadoLivre: {
+    name: "Mercado Livre",
+    hosts: /(^|\.)mercado(livre|libre)\.(com|com\.br|com\.mx|com\.ar)$/
+  },
+  shopee: {
+    name: "Shopee",
+    hosts: /(^|\.)shopee\.(com\.br|com\.mx)$|^shope\.ee$/,
+    subIdParam: "sub_id"
+  },
+  magalu: {
+    name: "Magalu",
+    hosts: /(^|\.)(magazineluiza\.com\.br|magazinevoce\.com\.br|magalu\.com)$/
+  },
+  clickbank: {
+    name: "ClickBank",
+    hosts: /\.hop\.clickbank\.net$/,
+    subIdParam: "tid"
+  },
+  hotmart: {
+    name: "Hotmart",
+    hosts: /^(go|pay)\.hotmart\.com$/,
+    subIdParam: "sck"
+  },
+  eduzz: {
+    name: "Eduzz",
+    hosts: /^(sun|chk)\.eduzz\.com$/
+  },
+  kiwify: {
+    name: "Kiwify",
+    hosts: /^(pay\.kiwify\.com\.br|kiwify\.app)$/,
+    subIdParam: "sck"
+  },
+  braip: {
+    name: "Braip",
+    hosts: /^ev\.braip\.com$/,
+    subIdParam: "src"
+  }
+};
+
+const ctaTemplates: Record<string, { text: string; label: string }> = {
+  pt: {
+    text: "Confira o preço atualizado e as condições de pagamento na {platform}.",
+    label: "Ver oferta na {platform}"
+  },
+  es: {
+    text: "Consulta el precio actualizado y las condiciones de pago en {platform}.",
+    label: "Ver oferta en {platform}"
+  },
+  en: {
+    text: "Check the latest price and availability on {platform}.",
+    label: "See the deal on {platform}"
+  }
+};
+
+export function affiliateLinkField(platform: AffiliatePlatform) {
+  const rule = platformRules[platform];
+  return z
+    .string()
+    .optional()
+    .default("")
+    .superRefine((value, ctx) => {
+      if (!value) return;
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${rule.name} link is not a valid URL.` });
+        return;
+      }
+      if (url.protocol !== "https:") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${rule.name} link must use https.` });
+      }
+      if (!rule.hosts.test(url.hostname)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${url.hostname} is not a recognized ${rule.name} affiliate domain.`
+        });
+      }
+      if (rule.required && url.hostname !== "amzn.to" && !url.searchParams.get(rule.required.param)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: rule.required.message });
+      }
+    });
+}
+
+export const affiliateLinksSchema = z.object({
+  amazon: affiliateLinkField("amazon"),
+  mercadoLivre: affiliateLinkField("mercadoLivre"),
+  shopee: affiliateLinkField("shopee"),
+  magalu: affiliateLinkField("magalu"),
+  clickbank: affiliateLinkField("clickbank"),
+  hotmart: affiliateLinkField("hotmart"),
+  eduzz: affiliateLinkField("eduzz"),
+  kiwify: affiliateLinkField("kiwify"),
+  braip: affiliateLinkField("braip")
+});
+
+function withTracking(platform: AffiliatePlatform, link: string, trackingTag: string): string {
+  const url = new URL(link);
+  const params: Record<string, string> = {
+    utm_source: "agentic-review-builder",
+    utm_medium: "affiliate",
+    utm_campaign: trackingTag
+  };
+  const subIdParam = platformRules[platform].subIdParam;
+  if (subIdParam) {
+    params[subIdParam] = trackingTag;
+  }
+  Object.entries(params).forEach(([key, value]) => {
+    if (!url.searchParams.has(key)) {
+      url.searchParams.set(key, value);
+    }
+  });
+  return url.toString();
+}
+
+export function platformName(platform: AffiliatePlatform): string {
+  return platformRules[platform].name;
+}
+
+export function detectPlatform(link: string): AffiliatePlatform | null {
+  try {
+    const { hostname } = new URL(link);
+    const platforms = Object.keys(platformRules) as AffiliatePlatform[];
+    return platforms.find((platform) => platformRules[platform].hosts.test(hostname)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function platformForUrl(link: string, links: AffiliateLinks): AffiliatePlatform | null {
+  const exact = (Object.keys(links) as AffiliatePlatform[]).find((platform) => links[platform] === link);
+  return exact ?? detectPlatform(link);
+}
+
+function buildCta(platform: AffiliatePlatform, url: string, locale: string): ArticleBlock {
+  const template = ctaTemplates[locale.toLowerCase().split("-")[0]] ?? ctaTemplates.en;
+  const name = platformRules[platform].name;
+  return {
+    type: "cta",
+    text: template.text.replace("{platform}", name),
+    label: template.label.replace("{platform}", name),
+    url,
+    platform
+  };
+}
+
+export function injectAffiliateLinks(input: {
+  article: Article;
+  affiliateLinks: AffiliateLinks;
+  locale: string;
+  trackingTag: string;
+}): { article: Article; links: AffiliateLinkReport[]; discarded: string[] } {
+  const tracked = Object.fromEntries(
+    (Object.entries(input.affiliateLinks) as Array<[AffiliatePlatform, string]>)
+      .filter(([, link]) => link)
+      .map(([platform, link]) => [platform, withTracking(platform, link, input.trackingTag)])
+  ) as Partial<AffiliateLinks>;
+  const links: AffiliateLinkReport[] = [];
+  const discarded: string[] = [];
+
+  const normalizeBlocks = (blocks: ArticleBlock[]) =>
+    blocks.flatMap((block): ArticleBlock[] => {
+      if (block.type !== "cta" || !block.url) {
+        return [block];
+      }
+      const platform = platformForUrl(block.url, input.affiliateLinks);
+      const url = platform ? tracked[platform] : undefined;
+      if (!platform || !url) {
+        discarded.push(block.url);
+        return [];
+      }
+      if (!links.some((link) => link.platform === platform)) {
+        links.push({ platform, url, source: "model", placement: "model" });
+      }
+      return [{ ...block, url, platform }];
+    });
+
+  const sections = input.article.sections.map((section) => ({
+    ...section,
+    blocks: normalizeBlocks(section.blocks),
+    subsections: section.subsections.map((subsection) => ({
+      ...subsection,
+      blocks: normalizeBlocks(subsection.blocks)
+    }))
+  }));
+
+  const missing = (Object.keys(tracked) as AffiliatePlatform[]).filter(
+    (platform) => !links.some((link) => link.platform === platform)
+  );
+  const placements: Array<{ placement: CtaPlacement; index: number }> = [
+    { placement: "intro", index: sections.findIndex((section) => section.kind === "intro") },
+    { placement: "verdict", index: sections.findIndex((section) => section.kind === "verdict") },
+    { placement: "end", index: sections.length - 1 }
+  ].filter((slot): slot is { placement: CtaPlacement; index: number } => slot.index >= 0);
+
+  missing.forEach((platform, position) => {
+    const slot = placements[position % placements.length];
+    const url = tracked[platform] as string;
+    sections[slot.index].blocks.push(buildCta(platform, url, input.locale));
+    links.push({ platform, url, source: "injector", placement: slot.placement });
+  });
+
+  return {
+    article: { ...input.article, sections },
+    links,
+    discarded
+  };
+}
+
+export const affiliateReportSchema = z.object({
+  links: z.array(
+    z.object({
+      platform: affiliateLinksSchema.keyof(),
+      url: z.string(),
+      source: z.enum(["model", "injector"]),
+      placement: z.enum(["intro", "verdict", "end", "model"])
+    })
+  ),
+  discarded: z.array(z.string())
+});
+
+export type AffiliateReport = z.infer<typeof affiliateReportSchema>;
+
+export function carryOverAffiliateReport(previous: AffiliateReport | undefined, next: AffiliateReport): AffiliateReport {
+  if (!previous) {
+    return next;
+  }
+  return {
+    links: next.links.map((link) => {
+      const kept =
+        link.source === "model"
+          ? previous.links.find((entry) => entry.platform === link.platform && entry.url === link.url)
+          : undefined;
+      return kept ?? link;
+    }),
+    discarded: Array.from(new Set([...previous.discarded, ...next.discarded]))
+  };
+}
+
+export function buildProductCtas(input: {
+  affiliateLinks: AffiliateLinks;
+  locale: string;
+  trackingTag: string;
+}): ArticleBlock[] {
+  return (Object.entries(input.affiliateLinks) as Array<[AffiliatePlatform, string]>)
+    .filter(([, link]) => link)
+    .map(([platform, link]) => buildCta(platform, withTracking(platform, link, input.trackingTag), input.locale));
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { listJobIds, loadJob, readJobFile, saveJob, writeJobFile } from "@/server/batch/store";
+import { parseCsvRecords } from "@/server/csv";
+import { briefSchema, requestSchema, runGeneration, type GenerateBody } from "@/server/generation";
+import { createZip } from "@/server/zip";
+
+export type BatchRowStatus = "pending" | "running" | "done" | "failed";
+
+export interface BatchRow {
+  index: number;
+  productUrl: string;
+  request: GenerateBody | null;
+  status: BatchRowStatus;
+  attempts: number;
+  retryAt?: number;
+  error?: string;
+  title?: string;
+  files: string[];
+}
+
+export interface BatchJob {
+  id: string;
+  status: "running" | "completed";
+  createdAt: string;
+  updatedAt: string;
+  concurrency: number;
+  maxAttempts: number;
+  rows: BatchRow[];
+}
+
+export interface BatchJobSummary {
+  id: string;
+  status: BatchJob["status"];
+  createdAt: string;
+  updatedAt: string;
+  counts: Record<BatchRowStatus, number>;
+}
+
+export const batchRequestSchema = z
+  .object({
+    brief: z.record(z.unknown()),
+    csv: z.string().optional(),
+    rows: z.array(z.record(z.unknown())).optional(),
+    concurrency: z.number().int().min(1).max(5).optional().default(2),
+    maxAttempts: z.number().int().min(1).max(5).optional().default(3)
+  })
+  .refine((value) => value.csv || value.rows, { message: "Provide rows as CSV or a JSON array." });
+
+const maxRows = 200;
+const retryDelayMs = 5000;
+const affiliatePlatforms = Object.keys(requestSchema.shape.affiliateLinks.shape);
+const columnAliases: Record<string, "productUrl" | "targetKeywords" | "targetLocale"> = {
+  url: "productUrl",
+  producturl: "productUrl",
+  keywords: "targetKeywords",
+  targetkeywords: "targetKeywords",
+  locale: "targetLocale",
+  targetlocale: "targetLocale"
+};
+const activeJobs = new Map<string, Promise<void>>();
+
+function normalizeRow(record: Record<string, unknown>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  const affiliateLinks: Record<string, string> = isRecord(record.affiliateLinks)
+    ? Object.fromEntries(
+        Object.entries(record.affiliateLinks).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== ""
+        )
+      )
+    : {};
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (typeof value !== "string" || !value.trim()) return;
+    const normalized = key.toLowerCase().replace(/[\s_-]/g, "");
+    const platform = affiliatePlatforms.find((name) => name.toLowerCase() === normalized.replace(/^affiliate/, ""));
+    if (columnAliases[normalized]) {
+      row[columnAliases[normalized]] = value.trim();
+    } else if (platform) {
+      affiliateLinks[platform] = value.trim();
+    }
+  });
+
+  return { ...row, affiliateLinks };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "article"
+  );
+}
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function summarizeJob(job: BatchJob): BatchJobSummary {
+  const counts: Record<BatchRowStatus, number> = { pending: 0, running: 0, done: 0, failed: 0 };
+  job.rows.forEach((row) => {
+    counts[row.status] += 1;
+  });
+  return { id: job.id, status: job.status, createdAt: job.createdAt, updatedAt: job.updatedAt, counts };
+}
+
+export async function createBatchJob(input: z.infer<typeof batchRequestSchema>): Promise<BatchJob> {
+  const brief = briefSchema.parse(input.brief);
+  const records = input.csv ? parseCsvRecords(input.csv) : input.rows ?? [];
+  if (records.length === 0) {
+    throw new Error("The batch has no rows.");
+  }
+  if (records.length > maxRows) {
+    throw new Error(`A batch can have at most ${maxRows} rows.`);
+  }
+
+  const rows = records.map((record, index): BatchRow => {
+    const row = normalizeRow(record);
+    const parsed = requestSchema.safeParse({
+      ...brief,
+      ...row,
+      affiliateLinks: { ...brief.affiliateLinks, ...(row.affiliateLinks as Record<string, string>) }
+    });
+    return {
+      index,
+      productUrl: typeof row.productUrl === "string" ? row.productUrl : "",
+      request: parsed.success ? parsed.data : null,
+      status: parsed.success ? "pending" : "failed",
+      attempts: 0,
+      error: parsed.success
+        ? undefined
+        : parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+      files: []
+    };
+  });
+
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    id: randomUUID(),
+    status: "running",
+    createdAt: now,
+    updatedAt: now,
+    concurrency: input.concurrency,
+    maxAttempts: input.maxAttempts,
+    rows
+  };
+  await saveJob(job);
+  startBatchJob(job.id);
+  return job;
+}
+
+async function processRow(job: BatchJob, row: BatchRow): Promise<void> {
+  row.status = "running";
+  row.attempts += 1;
+  row.error = undefined;
+  await saveJob(job);
+
+  try {
+    if (!row.request) {
+      throw new Error("Row has no valid request.");
+    }
+    const outcome = await runGeneration(row.request);
+    if (outcome.status !== 200) {
+      throw new Error(outcome.body.error);
+    }
+    const result = outcome.body;
+    const base = `${String(row.index + 1).padStart(3, "0")}-${slugify(result.article.headline)}`;
+    const files: Array<[string, string]> = [
+      [`${base}.md`, result.exports.markdown],
+      [`${base}.html`, result.exports.html]
+    ];
+    if (result.discoverySchema) {
+      files.push([`${base}.jsonld`, JSON.stringify(result.discoverySchema, null, 2)]);
+    }
+    await Promise.all(files.map(([name, content]) => writeJobFile(job.id, name, content)));
+    row.files = files.map(([name]) => name);
+    row.title = result.article.headline;
+    row.status = "done";
+    row.retryAt = undefined;
+  } catch (error) {
+    row.error = error instanceof Error ? error.message : "Generation failed.";
+    if (row.attempts < job.maxAttempts) {
+      row.status = "pending";
+      row.retryAt = Date.now() + retryDelayMs * 2 ** (row.attempts - 1);
+    } else {
+      row.status = "failed";
+    }
+  }
+  await saveJob(job);
+}
+
+async function worker(job: BatchJob): Promise<void> {
+  for (;;) {
+    const row = job.rows.find((candidate) => candidate.status === "pending" && (candidate.retryAt ?? 0) <= Date.now());
+    if (row) {
+      await processRow(job, row);
+      continue;
+    }
+    const waiting = job.rows.filter((candidate) => candidate.status === "pending");
+    if (waiting.length === 0) return;
+    const wakeAt = Math.min(...waiting.map((candidate) => candidate.retryAt ?? 0));
+    await new Promise((resolve) => setTimeout(resolve, Math.max(wakeAt - Date.now(), 50)));
+  }
+}
+
+async function runJob(id: string): Promise<void> {
+  const job = await loadJob(id);
+  if (!job) return;
+  job.rows.forEach((row) => {
+    if (row.status === "running") row.status = "pending";
+  });
+  job.status = "running";
+  await saveJob(job);
+
+  await Promise.all(Array.from({ length: job.concurrency }, () => worker(job)));
+  job.status = "completed";
+  await saveJob(job);
+}
+
+export function startBatchJob(id: string): void {
+  if (activeJobs.has(id)) return;
+  const run = runJob(id)
+    .catch((error) => console.error(`Batch job ${id} stopped:`, error))
+    .finally(() => activeJobs.delete(id));
+  activeJobs.set(id, run);
+}
+
+export async function resumeBatchJobs(): Promise<void> {
+  const ids = await listJobIds();
+  const jobs = await Promise.all(ids.map((id) => loadJob(id)));
+  jobs.forEach((job) => {
+    if (job?.status === "running" && !activeJobs.has(job.id)) {
+      startBatchJob(job.id);
+    }
+  });
+}
+
+export async function listBatchJobs(): Promise<BatchJobSummary[]> {
+  const jobs = await Promise.all((await listJobIds()).map((id) => loadJob(id)));
+  return jobs
+    .filter((job): job is BatchJob => Boolean(job))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarizeJob);
+}
+
+export async function buildBatchArchive(job: BatchJob): Promise<Buffer> {
+  const files = await Promise.all(
+    job.rows
+      .flatMap((row) => row.files)
+      .map(async (name) => ({ name, content: await readJobFile(job.id, name) }))
+  );
+  const report = [
+    "row,productUrl,status,attempts,title,files,error",
+    ...job.rows.map((row) =>
+      [row.index + 1, row.productUrl, row.status, row.attempts, row.title, row.files.join(" "), row.error]
+        .map(csvCell)
+        .join(",")
+    )
+  ].join("\n");
+  return createZip([...files, { name: "report.csv", content: report }]);
+}
+
+export { loadJob };
@@ -0,0 +1,30 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { BatchJob } from "@/server/batch";
+import { assertSafeId, dataPath, listDirectory, readJsonFile, writeJsonFile } from "@/server/storage";
+
+export function jobDirectory(id: string): string {
+  return dataPath("batches", assertSafeId(id, "batch job"));
+}
+
+export async function saveJob(job: BatchJob): Promise<void> {
+  return writeJsonFile(path.join(jobDirectory(job.id), "job.json"), { ...job, updatedAt: new Date().toISOString() });
+}
+
+export async function loadJob(id: string): Promise<BatchJob | null> {
+  return readJsonFile<BatchJob>(path.join(jobDirectory(id), "job.json"));
+}
+
+export async function listJobIds(): Promise<string[]> {
+  return listDirectory(dataPath("batches"), "directories");
+}
+
+export async function writeJobFile(id: string, name: string, content: string): Promise<void> {
+  const directory = path.join(jobDirectory(id), "files");
+  await fs.mkdir(directory, { recursive: true });
+  await fs.writeFile(path.join(directory, name), content, "utf8");
+}
+
+export async function readJobFile(id: string, name: string): Promise<string> {
+  return fs.readFile(path.join(jobDirectory(id), "files", path.basename(name)), "utf8");
+}
@@ -0,0 +1,395 @@
+import { z } from "zod";
+import { affiliateLinksSchema, buildProductCtas, type AffiliateLinks } from "@/server/affiliates";
+import { checkCompliance, insertDisclosure, type ComplianceReport } from "@/server/compliance";
+import { completeDraftPart, seoSchema, type Draft, type DraftDiagnostics } from "@/server/draft";
+import {
+  briefSchema,
+  renderExports,
+  resolveSchemaTypes,
+  withImageText,
+  type GenerationOutcome
+} from "@/server/generation";
+import { generateImages, resolveImageOptions, type GeneratedImage } from "@/server/imageGen";
+import { imageCandidates, processImages, schemaImages, type ImageSet } from "@/server/images";
+import { getLlmProvider, resolveLlmSettings, type LlmSettings } from "@/server/llm";
+import { buildOffers, generateComparisonSchema } from "@/server/schema";
+import { validateRichResults, type SchemaValidationResult } from "@/server/schemaValidator";
+import { scrapeProductData, type ExtractionReport, type ProductData } from "@/server/scraper";
+import { spellCheckArticle, type SpellCheckResult } from "@/server/spellcheck";
+import {
+  applyPlainText,
+  articleToPlainText,
+  type Article,
+  type ArticleBlock
+} from "@/utils/article";
+
+const maxTableRows = 25;
+
+export const comparisonRequestSchema = briefSchema.omit({ affiliateLinks: true }).extend({
+  products: z
+    .array(
+      z.object({
+        url: z.string().url(),
+        affiliateLinks: affiliateLinksSchema.optional().default({})
+      })
+    )
+    .min(2)
+    .max(10)
+});
+
+export type ComparisonBody = z.infer<typeof comparisonRequestSchema>;
+
+export interface ComparisonTable {
+  columns: string[];
+  rows: Array<{ label: string; values: string[] }>;
+}
+
+export interface ComparedProduct {
+  url: string;
+  product: ProductData;
+  extraction: ExtractionReport;
+  affiliateLinks: AffiliateLinks;
+  bestFor: string;
+  verdict: string;
+  rating: number;
+}
+
+export interface ComparisonResult {
+  article: Article;
+  exports: { markdown: string; html: string };
+  seo: Draft["seo"];
+  products: ComparedProduct[];
+  failed: Array<{ url: string; error: string }>;
+  comparisonTable: ComparisonTable;
+  discoverySchema: Record<string, unknown> | null;
+  schemaWarnings: string[];
+  schemaValidation: SchemaValidationResult | null;
+  images: GeneratedImage[];
+  imageSet: ImageSet;
+  llm: LlmSettings;
+  diagnostics: DraftDiagnostics;
+  spellcheck: SpellCheckResult;
+  compliance: ComplianceReport;
+}
+
+export type ComparisonOutcome =
+  | { status: 200; body: ComparisonResult }
+  | { status: 422; body: Extract<GenerationOutcome, { status: 422 }>["body"] };
+
+const tableLabels: Record<string, { price: string; brand: string; rating: string }> = {
+  en: { price: "Price", brand: "Brand", rating: "Rating" },
+  pt: { price: "Preço", brand: "Marca", rating: "Avaliação" },
+  es: { price: "Precio", brand: "Marca", rating: "Valoración" }
+};
+
+const textSchema = z.string().trim().min(1);
+
+function comparisonDraftSchema(count: number) {
+  return z
+    .object({
+      headline: textSchema,
+      introHeading: textSchema,
+      intro: z.array(textSchema).min(1),
+      tableHeading: textSchema,
+      products: z.array(
+        z.object({
+          index: z.number().int().min(0).max(count - 1),
+          heading: textSchema,
+          bestFor: textSchema,
+          summary: textSchema,
+          pros: z.array(textSchema),
+          cons: z.array(textSchema),
+          verdict: textSchema,
+          rating: z.number().min(1).max(5)
+        })
+      ),
+      verdict: z.object({ heading: textSchema, text: textSchema }),
+      faq: z.array(z.object({ question: textSchema, answer: textSchema })).optional().default([]),
+      labels: z.object({ bestFor: textSchema, pros: textSchema, cons: textSchema, faq: textSchema }),
+      seo: seoSchema,
+      imagePrompts: z.array(textSchema).optional().default([])
+    })
+    .superRefine((draft, ctx) => {
+      const indexes = new Set(draft.products.map((entry) => entry.index));
+      if (indexes.size !== count || draft.products.length !== count) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["products"],
+          message: `Expected exactly one entry for each product index from 0 to ${count - 1}.`
+        });
+      }
+    });
+}
+
+type ComparisonDraft = z.infer<ReturnType<typeof comparisonDraftSchema>>;
+
+function specKey(label: string): string {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\([^)]*\)/g, " ")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function buildComparisonTable(products: ProductData[], locale: string): ComparisonTable {
+  const labels = tableLabels[locale.toLowerCase().split("-")[0]] ?? tableLabels.en;
+  const specs = new Map<string, { label: string; values: string[] }>();
+  products.forEach((product, index) => {
+    Object.entries(product.specifications ?? {}).forEach(([label, value]) => {
+      const key = specKey(label);
+      if (!key || !value.trim()) return;
+      const row = specs.get(key) ?? { label: label.trim(), values: products.map(() => "") };
+      row.values[index] ||= value.trim();
+      specs.set(key, row);
+    });
+  });
+
+  const coverage = (row: { values: string[] }) => row.values.filter(Boolean).length;
+  const specRows = [...specs.values()].sort((a, b) => coverage(b) - coverage(a));
+  const shared = specRows.filter((row) => coverage(row) >= 2);
+  const rows = [
+    { label: labels.price, values: products.map((product) => product.price ?? "") },
+    { label: labels.brand, values: products.map((product) => product.brand ?? "") },
+    {
+      label: labels.rating,
+      values: products.map(({ aggregateRating }) =>
+        aggregateRating ? `${aggregateRating.ratingValue}/${aggregateRating.bestRating ?? 5}` : ""
+      )
+    },
+    ...(shared.length > 0 ? shared : specRows)
+  ]
+    .filter((row) => coverage(row) > 0)
+    .slice(0, maxTableRows)
+    .map((row) => ({ label: row.label, values: row.values.map((value) => value || "—") }));
+
+  return { columns: products.map((product, index) => product.title ?? `Product ${index + 1}`), rows };
+}
+
+function paragraph(text: string): ArticleBlock {
+  return { type: "paragraph", text };
+}
+
+function assembleArticle(draft: ComparisonDraft, table: ComparisonTable, ctas: ArticleBlock[][]): Article {
+  const entries = [...draft.products].sort((a, b) => a.index - b.index);
+  return {
+    headline: draft.headline,
+    sections: [
+      { kind: "intro", heading: draft.introHeading, blocks: draft.intro.map(paragraph), subsections: [] },
+      {
+        kind: "body",
+        heading: draft.tableHeading,
+        blocks: [{ type: "comparisonTable", columns: table.columns, rows: table.rows }],
+        subsections: []
+      },
+      ...entries.map((entry) => ({
+        kind: "body" as const,
+        heading: entry.heading,
+        blocks: [
+          paragraph(`${draft.labels.bestFor}: ${entry.bestFor}`),
+          paragraph(entry.summary),
+          ...(entry.pros.length > 0 || entry.cons.length > 0
+            ? [
+                {
+                  type: "prosCons" as const,
+                  prosLabel: draft.labels.pros,
+                  consLabel: draft.labels.cons,
+                  pros: entry.pros,
+                  cons: entry.cons
+                }
+              ]
+            : []),
+          paragraph(entry.verdict),
+          ...ctas[entry.index]
+        ],
+        subsections: []
+      })),
+      {
+        kind: "verdict",
+        heading: draft.verdict.heading,
+        blocks: [
+          paragraph(draft.verdict.text),
+          {
+            type: "list",
+            ordered: false,
+            items: entries.map((entry) => `${table.columns[entry.index]}: ${entry.bestFor}`)
+          }
+        ],
+        subsections: []
+      },
+      ...(draft.faq.length > 0
+        ? [
+            {
+              kind: "faq" as const,
+              heading: draft.labels.faq,
+              blocks: [{ type: "faq" as const, items: draft.faq }],
+              subsections: []
+            }
+          ]
+        : [])
+    ]
+  };
+}
+
+export async function runComparison(body: ComparisonBody): Promise<ComparisonOutcome> {
+  const scraped = await Promise.all(body.products.map((entry) => scrapeProductData(entry.url)));
+  const failed: ComparisonResult["failed"] = [];
+  const compared = scraped.flatMap((result, index) => {
+    const { url, affiliateLinks } = body.products[index];
+    if (result.extraction.extractor === "none" || !result.product.title) {
+      failed.push({ url, error: result.extraction.error ?? "No product data could be extracted from this page." });
+      return [];
+    }
+    return [{ url, ...result, affiliateLinks }];
+  });
+  if (compared.length < 2) {
+    throw new Error(`At least two products must be scraped to build a comparison; ${failed.length} failed.`);
+  }
+
+  const products = compared.map((entry) => entry.product);
+  const table = buildComparisonTable(products, body.targetLocale);
+  const llm = resolveLlmSettings(body.llm);
+  const { value: draft, diagnostics } = await completeDraftPart({
+    provider: getLlmProvider(llm.provider),
+    schema: comparisonDraftSchema(compared.length),
+    request: {
+      model: llm.model,
+      temperature: llm.temperature,
+      system:
+        "You are an SEO-savvy review journalist who writes truthful, conversion-oriented product roundups and comparisons. Produce JSON with fields: headline, introHeading, intro (paragraphs), tableHeading, products [{index, heading, bestFor, summary, pros, cons, verdict, rating (1-5)}] with exactly one entry per product index, verdict {heading, text}, faq [{question, answer}], labels {bestFor, pros, cons, faq}, seo {title, metaDescription, keywords, ogTitle, ogDescription}, imagePrompts. Ground every claim in the product data and the comparison table, never invent specifications, and give each product a distinct best-for label. Keep tone trustworthy and write every label in the target locale.",
+      user: JSON.stringify({
+        mode: "comparison",
+        locale: body.targetLocale,
+        targetKeywords: body.targetKeywords,
+        outlineStyle: body.outlineStyle,
+        tone: body.tone,
+        geoPersona: body.geoPersona,
+        callToAction: body.callToAction,
+        products: compared.map(({ product, affiliateLinks }, index) => ({
+          index,
+          title: product.title,
+          brand: product.brand,
+          price: product.price,
+          currency: product.currency,
+          description: product.description?.slice(0, 600),
+          highlights: product.highlights,
+          aggregateRating: product.aggregateRating,
+          hasAffiliateLinks: Object.values(affiliateLinks).some(Boolean)
+        })),
+        comparisonTable: table
+      })
+    }
+  });
+
+  const ctas = compared.map(({ affiliateLinks }) =>
+    buildProductCtas({ affiliateLinks, locale: body.targetLocale, trackingTag: body.trackingTag })
+  );
+  const hasAffiliateLinks = ctas.some((blocks) => blocks.length > 0);
+  const disclosed = insertDisclosure({
+    article: assembleArticle(draft, table, ctas),
+    locale: body.targetLocale,
+    hasAffiliateLinks
+  });
+
+  const spellcheck = await spellCheckArticle({
+    text: articleToPlainText(disclosed),
+    locale: body.targetLocale,
+    mode: body.spellcheckMode,
+    product: {
+      title: products.map((product) => product.title ?? "").join(" "),
+      brand: products.map((product) => product.brand ?? "").join(" "),
+      specifications: Object.assign({}, ...products.map((product) => product.specifications ?? {}))
+    }
+  });
+  const article = applyPlainText(disclosed, spellcheck.corrected);
+  const compliance = checkCompliance({ article, reviews: [], locale: body.targetLocale, hasAffiliateLinks });
+
+  const generatedImages = await generateImages({
+    prompts: draft.imagePrompts,
+    product: products[0],
+    style: body.imageStyle,
+    options: resolveImageOptions(body.imageOptions)
+  });
+  const roundup: ProductData = {
+    sourceUrl: body.products[0].url,
+    title: table.columns.join(" vs "),
+    images: products.flatMap((product) => product.images?.slice(0, 1) ?? [])
+  };
+  const imageSet = await processImages({
+    candidates: imageCandidates(roundup, generatedImages),
+    product: roundup,
+    locale: body.targetLocale,
+    llm
+  });
+  const images = withImageText(generatedImages, imageSet);
+  const processedImages = schemaImages(imageSet).article;
+
+  const verdicts = new Map(draft.products.map((entry) => [entry.index, entry]));
+  const offerWarnings: string[] = [];
+  const schemaProducts = compared.map(({ product, affiliateLinks }, index) => {
+    const offers = buildOffers({ product, affiliateLinks, locale: body.targetLocale });
+    offerWarnings.push(...offers.warnings.map((warning) => `${table.columns[index]}: ${warning}`));
+    const entry = verdicts.get(index);
+    return {
+      product,
+      offers: offers.offers,
+      rating: entry?.rating ?? 3,
+      verdict: entry?.verdict ?? "",
+      bestFor: entry?.bestFor ?? ""
+    };
+  });
+  const fallbackImages = images.filter((image) => image.status === "generated");
+  const schemaTypes = resolveSchemaTypes(body);
+  const discovery = generateComparisonSchema({
+    article,
+    seo: draft.seo,
+    images: processedImages.length > 0 ? processedImages : fallbackImages,
+    locale: body.targetLocale,
+    authorName: body.authorName,
+    pageUrl: body.articleUrl,
+    datePublished: new Date().toISOString(),
+    types: schemaTypes,
+    products: schemaProducts
+  });
+  const schemaValidation = discovery.schema ? validateRichResults(discovery.schema) : null;
+  if (body.failOnSchemaErrors && schemaValidation && !schemaValidation.valid) {
+    return {
+      status: 422,
+      body: {
+        error: "Discovery schema failed rich results validation.",
+        discoverySchema: discovery.schema,
+        schemaValidation
+      }
+    };
+  }
+
+  return {
+    status: 200,
+    body: {
+      article,
+      exports: renderExports(article, imageSet.images),
+      seo: draft.seo,
+      products: compared.map((entry, index) => ({
+        url: entry.url,
+        product: entry.product,
+        extraction: entry.extraction,
+        affiliateLinks: entry.affiliateLinks,
+        bestFor: schemaProducts[index].bestFor,
+        verdict: schemaProducts[index].verdict,
+        rating: schemaProducts[index].rating
+      })),
+      failed,
+      comparisonTable: table,
+      discoverySchema: discovery.schema,
+      schemaWarnings: [...(schemaTypes.product ? offerWarnings : []), ...discovery.warnings],
+      schemaValidation,
+      images,
+      imageSet,
+      llm,
+      diagnostics,
+      spellcheck,
+      compliance
+    }
+  };
+}
@@ -0,0 +1,164 @@
+import type { Article, ArticleBlock } from "@/utils/article";
+import { articleToPlainText } from "@/utils/article";
+import { findPriceMentions, parsePriceAmount, type PriceFormat } from "@/server/pricing";
+
+export interface ComplianceIssue {
+  type: "missing-disclosure" | "superlative" | "price-claim";
+  severity: "error" | "warning";
+  excerpt: string;
+  message: string;
+}
+
+export interface ComplianceReport {
+  disclosure: {
+    required: boolean;
+    present: boolean;
+    standard: string | null;
+  };
+  issues: ComplianceIssue[];
+}
+
+interface DisclosureTemplate {
+  standard: string;
+  text: string;
+}
+
+const disclosureTemplates: Record<string, DisclosureTemplate> = {
+  pt: {
+    standard: "CONAR",
+    text: "Publicidade: este conteúdo contém links de afiliado. Se você comprar por meio deles, podemos receber uma comissão, sem custo adicional para você. Nossa avaliação é independente."
+  },
+  es: {
+    standard: "Autocontrol/PROFECO",
+    text: "Publicidad: este artículo contiene enlaces de afiliado. Si compras a través de ellos, podemos recibir una comisión sin costo adicional para ti. Nuestra evaluación es independiente."
+  },
+  en: {
+    standard: "FTC",
+    text: "Disclosure: this article contains affiliate links. If you buy through them, we may earn a commission at no extra cost to you. Our review is independent."
+  }
+};
+
+const superlativePatterns: Record<string, RegExp[]> = {
+  pt: [
+    /\bo melhor (?:do mundo|do mercado|de todos(?: os tempos)?|do brasil)\b/giu,
+    /\b(?:imbatível|insuperável|incomparável|perfeito)\b/giu,
+    /\b(?:número|n[º°]) ?1\b/giu,
+    /\bresultados? garantidos?\b/giu
+  ],
+  es: [
+    /\bel mejor (?:del mundo|del mercado|de todos(?: los tiempos)?)\b/giu,
+    /\b(?:insuperable|inigualable|perfecto)\b/giu,
+    /\b(?:número|n[º°]) ?1\b/giu,
+    /\bresultados? garantizados?\b/giu
+  ],
+  en: [
+    /\bthe best (?:in the world|on the market|ever|of all time)\b/giu,
+    /\b(?:unbeatable|unmatched|flawless)\b/giu,
+    /(?:#|\bnumber )1\b/giu,
+    /\bguaranteed results?\b/giu
+  ]
+};
+
+function languageOf(locale: string): string {
+  const language = locale.toLowerCase().split("-")[0];
+  return disclosureTemplates[language] ? language : "en";
+}
+
+function hasDisclosure(blocks: ArticleBlock[]): boolean {
+  return blocks.some((block) => block.type === "disclosure");
+}
+
+export function insertDisclosure(input: { article: Article; locale: string; hasAffiliateLinks: boolean }): Article {
+  if (!input.hasAffiliateLinks || input.article.sections.some((section) => hasDisclosure(section.blocks))) {
+    return input.article;
+  }
+  const [first, ...rest] = input.article.sections;
+  const disclosure: ArticleBlock = { type: "disclosure", text: disclosureTemplates[languageOf(input.locale)].text };
+  return {
+    ...input.article,
+    sections: [{ ...first, blocks: [disclosure, ...first.blocks] }, ...rest]
+  };
+}
+
+function ctaPrecedesDisclosure(article: Article): boolean {
+  const blocks = article.sections.flatMap((section) => [
+    ...section.blocks,
+    ...section.subsections.flatMap((subsection) => subsection.blocks)
+  ]);
+  const cta = blocks.findIndex((block) => block.type === "cta" && block.url);
+  const disclosure = blocks.findIndex((block) => block.type === "disclosure");
+  return cta >= 0 && disclosure >= 0 && cta < disclosure;
+}
+
+export function checkCompliance(input: {
+  article: Article;
+  reviews: Array<{ summary: string; details: string }>;
+  locale: string;
+  price?: string;
+  priceFormat?: PriceFormat;
+  hasAffiliateLinks: boolean;
+}): ComplianceReport {
+  const language = languageOf(input.locale);
+  const issues: ComplianceIssue[] = [];
+  const present = input.article.sections.some((section) => hasDisclosure(section.blocks));
+
+  if (input.hasAffiliateLinks && !present) {
+    issues.push({
+      type: "missing-disclosure",
+      severity: "error",
+      excerpt: input.article.headline,
+      message: `Affiliate links are present but the article has no ${disclosureTemplates[language].standard} disclosure.`
+    });
+  } else if (input.hasAffiliateLinks && ctaPrecedesDisclosure(input.article)) {
+    issues.push({
+      type: "missing-disclosure",
+      severity: "warning",
+      excerpt: input.article.headline,
+      message: "The first affiliate call-to-action appears before the disclosure."
+    });
+  }
+
+  const text = [
+    articleToPlainText(input.article),
+    ...input.reviews.flatMap((review) => [review.summary, review.details])
+  ].join("\n");
+
+  superlativePatterns[language].forEach((pattern) => {
+    Array.from(text.matchAll(pattern)).forEach((match) => {
+      issues.push({
+        type: "superlative",
+        severity: "warning",
+        excerpt: match[0],
+        message: "Unqualified superlative claim; back it up with a source or soften the wording."
+      });
+    });
+  });
+
+  const scrapedAmount = input.price ? parsePriceAmount(input.price, input.priceFormat) : null;
+  findPriceMentions(text).forEach((mention) => {
+    if (scrapedAmount === null) {
+      issues.push({
+        type: "price-claim",
+        severity: "warning",
+        excerpt: mention.text,
+        message: "Price mentioned but no price was found on the product page to verify it."
+      });
+    } else if (Math.abs(mention.amount - scrapedAmount) > scrapedAmount * 0.01) {
+      issues.push({
+        type: "price-claim",
+        severity: "error",
+        excerpt: mention.text,
+        message: `Price does not match the scraped product price (${input.price}).`
+      });
+    }
+  });
+
+  return {
+    disclosure: {
+      required: input.hasAffiliateLinks,
+      present,
+      standard: input.hasAffiliateLinks ? disclosureTemplates[language].standard : null
+    },
+    issues
+  };
+}
@@ -0,0 +1,217 @@
+import { z } from "zod";
+import type { LlmProvider, LlmRequest } from "@/server/llm";
+import { articleSchema, parseArticle, type Article } from "@/utils/article";
+
+const maxRepairAttempts = 2;
+
+const textSchema = z.string().trim().min(1);
+
+export const seoSchema = z.object({
+  title: textSchema,
+  metaDescription: textSchema,
+  keywords: z.array(textSchema),
+  ogTitle: textSchema,
+  ogDescription: textSchema,
+  canonicalUrl: z.string().url().optional()
+});
+
+export const reviewSchema = z.object({
+  reviewer: textSchema,
+  rating: z.number().min(1).max(5),
+  summary: textSchema,
+  details: textSchema
+});
+
+const draftSchema = z.object({
+  article: z.union([articleSchema, textSchema.transform((text) => parseArticle(text))]),
+  seo: seoSchema,
+  reviews: z.array(reviewSchema),
+  imagePrompts: z.array(textSchema)
+});
+
+export type Draft = z.infer<typeof draftSchema>;
+
+export interface DraftRepair {
+  path: string;
+  message: string;
+  resolution: "model" | "default" | "clamped" | "dropped";
+}
+
+export interface DraftDiagnostics {
+  attempts: number;
+  repairs: DraftRepair[];
+}
+
+interface DraftIssue {
+  path: string;
+  message: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseJson(content: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(content) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function describeIssues(error: z.ZodError): DraftIssue[] {
+  return error.issues.slice(0, 20).map((issue) => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message
+  }));
+}
+
+function repairPrompt(user: string, content: string, issues: DraftIssue[]): string {
+  return [
+    user,
+    "Your previous response was rejected:",
+    content.slice(0, 8000),
+    "Validation errors:",
+    ...issues.map((issue) => `- ${issue.path}: ${issue.message}`),
+    "Return the complete corrected JSON object only."
+  ].join("\n\n");
+}
+
+function field<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  value: unknown,
+  fallback: T,
+  path: string,
+  repairs: DraftRepair[]
+): T {
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+  repairs.push({ path, message: result.error.issues[0]?.message ?? "Invalid value.", resolution: "default" });
+  return fallback;
+}
+
+function salvageReviews(value: unknown, repairs: DraftRepair[]): Draft["reviews"] {
+  if (!Array.isArray(value)) {
+    repairs.push({ path: "reviews", message: "Expected an array of reviews.", resolution: "default" });
+    return [];
+  }
+  return value.flatMap((entry, index) => {
+    const path = `reviews.${index}`;
+    const review = isRecord(entry) ? entry : {};
+    const rating = Number(review.rating);
+    const text = z.object({ reviewer: textSchema, summary: textSchema, details: textSchema }).safeParse(review);
+    if (!text.success || !Number.isFinite(rating)) {
+      repairs.push({ path, message: "Review is missing a reviewer, text, or numeric rating.", resolution: "dropped" });
+      return [];
+    }
+    const clamped = Math.min(5, Math.max(1, rating));
+    if (clamped !== rating) {
+      repairs.push({ path: `${path}.rating`, message: `Rating ${rating} is outside 1–5.`, resolution: "clamped" });
+    }
+    return [{ ...text.data, rating: clamped }];
+  });
+}
+
+function salvageDraft(
+  raw: unknown,
+  fallback: { headline: string; description: string },
+  repairs: DraftRepair[]
+): Draft {
+  const value = isRecord(raw) ? raw : {};
+  const seo = isRecord(value.seo) ? value.seo : {};
+  const defaultArticle: Article = {
+    headline: fallback.headline,
+    sections: [{ kind: "intro", heading: fallback.headline, blocks: [], subsections: [] }]
+  };
+
+  const article = field(draftSchema.shape.article, value.article, defaultArticle, "article", repairs);
+  const title = field(textSchema, seo.title, article.headline, "seo.title", repairs);
+  const metaDescription = field(textSchema, seo.metaDescription, fallback.description, "seo.metaDescription", repairs);
+
+  return {
+    article,
+    seo: {
+      title,
+      metaDescription,
+      keywords: field(seoSchema.shape.keywords, seo.keywords, [], "seo.keywords", repairs),
+      ogTitle: field(textSchema, seo.ogTitle, title, "seo.ogTitle", repairs),
+      ogDescription: field(textSchema, seo.ogDescription, metaDescription, "seo.ogDescription", repairs),
+      canonicalUrl: field(
+        seoSchema.shape.canonicalUrl,
+        seo.canonicalUrl ?? undefined,
+        undefined,
+        "seo.canonicalUrl",
+        repairs
+      )
+    },
+    reviews: salvageReviews(value.reviews, repairs),
+    imagePrompts: field(draftSchema.shape.imagePrompts, value.imagePrompts, [], "imagePrompts", repairs)
+  };
+}
+
+type ValidationOutcome<T> =
+  | { ok: true; value: T; diagnostics: DraftDiagnostics }
+  | { ok: false; raw: unknown; issues: DraftIssue[] };
+
+async function requestValid<T>(input: {
+  provider: LlmProvider;
+  request: LlmRequest;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  onToken?: (token: string, attempt: number) => void;
+}): Promise<ValidationOutcome<T>> {
+  let request = input.request;
+  let raw: unknown = null;
+  let issues: DraftIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt += 1) {
+    const onToken = input.onToken;
+    const content = await input.provider.complete(request, onToken && ((token) => onToken(token, attempt)));
+    const parsed = parseJson(content);
+    if (parsed.ok) {
+      raw = parsed.value;
+      const result = input.schema.safeParse(parsed.value);
+      if (result.success) {
+        return {
+          ok: true,
+          value: result.data,
+          diagnostics: { attempts: attempt, repairs: issues.map((issue) => ({ ...issue, resolution: "model" })) }
+        };
+      }
+      issues = describeIssues(result.error);
+    } else {
+      issues = [{ path: "(response)", message: "Response is not valid JSON." }];
+    }
+    request = { ...input.request, user: repairPrompt(input.request.user, content, issues) };
+  }
+
+  return { ok: false, raw, issues };
+}
+
+export async function completeDraft(input: {
+  provider: LlmProvider;
+  request: LlmRequest;
+  fallback: { headline: string; description: string };
+  onToken?: (token: string, attempt: number) => void;
+}): Promise<{ draft: Draft; diagnostics: DraftDiagnostics }> {
+  const result = await requestValid({ ...input, schema: draftSchema });
+  if (result.ok) {
+    return { draft: result.value, diagnostics: result.diagnostics };
+  }
+
+  const repairs: DraftRepair[] = [];
+  const draft = salvageDraft(result.raw, input.fallback, repairs);
+  return { draft, diagnostics: { attempts: maxRepairAttempts + 1, repairs } };
+}
+
+export async function completeDraftPart<T>(input: {
+  provider: LlmProvider;
+  request: LlmRequest;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+}): Promise<{ value: T; diagnostics: DraftDiagnostics }> {
+  const result = await requestValid(input);
+  if (!result.ok) {
+    const details = result.issues.map((issue) => `${issue.path}: ${issue.message}`).join("; ");
+    throw new Error(`Model output failed validation after ${maxRepairAttempts + 1} attempts (${details}).`);
+  }
+  return { value: result.value, diagnostics: result.diagnostics };
+}
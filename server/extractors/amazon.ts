@@ -0,0 +1,54 @@
+import type { CheerioAPI } from "cheerio";
+import type { ProductExtractor } from "@/server/extractors";
+import { cleanText, collectList, collectTable } from "@/server/extractors/utils";
+
+function dynamicImages(value?: string): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const images = Object.keys(JSON.parse(value) as Record<string, unknown>).filter((src) => /^https?:\/\//.test(src));
+    return images.length > 0 ? images.slice(0, 6) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function detailBullets($: CheerioAPI): Record<string, string> | undefined {
+  const rows: Record<string, string> = {};
+  $("#detailBullets_feature_div li").each((_, element) => {
+    const key = cleanText($(element).find(".a-text-bold").text())?.replace(/[\s:‏‎]+$/u, "");
+    const value = cleanText($(element).find(".a-text-bold").next().text());
+    if (key && value) {
+      rows[key] = value;
+    }
+  });
+  return Object.keys(rows).length > 0 ? rows : undefined;
+}
+
+export const amazonExtractor: ProductExtractor = {
+  id: "amazon",
+  matches: (hostname) => /(^|\.)amazon\.[a-z.]+$/.test(hostname),
+  extract: ($) => {
+    const brand = cleanText($("#bylineInfo").text())
+      ?.replace(/^(Visit the|Visite a loja|Visita la tienda de|Brand:|Marca:)\s*/i, "")
+      .replace(/\s*(Store|Loja)$/i, "");
+    const landingImage = $("#landingImage");
+    const hiRes = landingImage.attr("data-old-hires");
+    const specifications = {
+      ...detailBullets($),
+      ...collectTable($, "#productDetails_detailBullets_sections1 tr"),
+      ...collectTable($, "#productDetails_techSpec_section_1 tr, #productOverview_feature_div tr")
+    };
+
+    return {
+      title: cleanText($("#productTitle").text()),
+      description: cleanText($("#productDescription").text()),
+      price: cleanText(
+        $("#corePrice_feature_div .a-offscreen, .a-price .a-offscreen, #priceblock_ourprice").first().text()
+      ),
+      brand: brand || undefined,
+      images: dynamicImages(landingImage.attr("data-a-dynamic-image")) ?? (hiRes ? [hiRes] : undefined),
+      highlights: collectList($, "#feature-bullets li span.a-list-item"),
+      specifications: Object.keys(specifications).length > 0 ? specifications : undefined
+    };
+  }
+};
@@ -0,0 +1,31 @@
+import type { ProductExtractor } from "@/server/extractors";
+import { cleanText, collectImages, collectList, collectTable, metaContent } from "@/server/extractors/utils";
+
+export const genericExtractor: ProductExtractor = {
+  id: "generic",
+  matches: () => true,
+  extract: ($) => {
+    const specifications: Record<string, string> = {};
+    $("[itemprop='additionalProperty']").each((_, element) => {
+      const key = cleanText($(element).find("[itemprop='name']").text());
+      const value = cleanText($(element).find("[itemprop='value']").text());
+      if (key && value) {
+        specifications[key] = value;
+      }
+    });
+
+    return {
+      title: metaContent($, "meta[property='og:title']") || cleanText($("title").text()),
+      description: metaContent($, "meta[name='description']") || metaContent($, "meta[property='og:description']"),
+      price:
+        metaContent($, "meta[property='product:price:amount']") || cleanText($("[itemprop='price']").first().text()),
+      currency:
+        metaContent($, "meta[property='product:price:currency'], meta[property='og:price:currency']") ||
+        cleanText($("[itemprop='priceCurrency']").first().attr("content")),
+      brand: cleanText($("[itemprop='brand']").first().text()) || metaContent($, "meta[property='product:brand']"),
+      images: collectImages($, "meta[property='og:image'], img", ["content", "src", "data-src"]),
+      highlights: collectList($, "[data-qa='product-description'] li, .product-highlights li, .a-unordered-list li"),
+      specifications: Object.keys(specifications).length > 0 ? specifications : collectTable($, "table tr")
+    };
+  }
+};
@@ -0,0 +1,31 @@
+import type { CheerioAPI } from "cheerio";
+import type { ProductData } from "@/server/scraper";
+import { amazonExtractor } from "@/server/extractors/amazon";
+import { genericExtractor } from "@/server/extractors/generic";
+import { magaluExtractor } from "@/server/extractors/magalu";
+import { mercadoLivreExtractor } from "@/server/extractors/mercadoLivre";
+import { salesPageExtractor } from "@/server/extractors/salesPage";
+import { shopeeExtractor } from "@/server/extractors/shopee";
+
+export type ExtractedFields = Omit<ProductData, "sourceUrl">;
+
+export interface ProductExtractor {
+  id: string;
+  matches: (hostname: string) => boolean;
+  extract: ($: CheerioAPI, url: URL) => ExtractedFields;
+}
+
+const extractors: ProductExtractor[] = [
+  amazonExtractor,
+  mercadoLivreExtractor,
+  shopeeExtractor,
+  magaluExtractor,
+  salesPageExtractor
+];
+
+export function selectExtractor(url: URL): ProductExtractor {
+  const hostname = url.hostname.toLowerCase();
+  return extractors.find((extractor) => extractor.matches(hostname)) ?? genericExtractor;
+}
+
+export { genericExtractor };
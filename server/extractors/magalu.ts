@@ -0,0 +1,28 @@
+import type { ProductExtractor } from "@/server/extractors";
+import { cleanText, collectImages, collectList, collectTable } from "@/server/extractors/utils";
+
+export const magaluExtractor: ProductExtractor = {
+  id: "magalu",
+  matches: (hostname) => /(^|\.)(magazineluiza|magazinevoce)\.com\.br$|(^|\.)magalu\.com$/.test(hostname),
+  extract: ($) => {
+    const specifications = collectTable(
+      $,
+      "[data-testid='product-attributes'] tr, [data-testid*='table-attribute'] tr"
+    );
+
+    return {
+      title: cleanText($("[data-testid='heading-product-title']").first().text()),
+      description: cleanText(
+        $("[data-testid='rich-content-container'], [data-testid='product-detail-description']").first().text()
+      ),
+      price: cleanText($("[data-testid='price-value']").first().text()),
+      brand: cleanText($("[data-testid='heading-product-brand']").first().text()) ?? specifications?.Marca,
+      images: collectImages($, "[data-testid='media-gallery-image'], [data-testid='image-selected-thumbnail']", [
+        "src",
+        "data-src"
+      ]),
+      highlights: collectList($, "[data-testid='product-highlights'] li"),
+      specifications
+    };
+  }
+};
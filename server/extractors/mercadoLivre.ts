@@ -0,0 +1,30 @@
+import type { ProductExtractor } from "@/server/extractors";
+import { cleanText, collectImages, collectList, collectTable, metaContent } from "@/server/extractors/utils";
+
+export const mercadoLivreExtractor: ProductExtractor = {
+  id: "mercadoLivre",
+  matches: (hostname) => /(^|\.)mercado(livre|libre)\.[a-z.]+$/.test(hostname),
+  extract: ($) => {
+    const price = $(".ui-pdp-price__second-line").first();
+    const fraction = cleanText(price.find(".andes-money-amount__fraction").first().text());
+    const cents = cleanText(price.find(".andes-money-amount__cents").first().text());
+    const currency = cleanText(price.find(".andes-money-amount__currency-symbol").first().text());
+    const specifications = collectTable(
+      $,
+      ".ui-vpp-striped-specs__table tr, .andes-table tr, .ui-pdp-specs__table tr"
+    );
+
+    return {
+      title: cleanText($("h1.ui-pdp-title").text()),
+      description: cleanText($(".ui-pdp-description__content").text()),
+      price:
+        metaContent($, "meta[itemprop='price']") ||
+        (fraction ? `${currency ?? ""} ${fraction}${cents ? `,${cents}` : ""}`.trim() : undefined),
+      currency: metaContent($, "meta[itemprop='priceCurrency']"),
+      brand: specifications?.Marca,
+      images: collectImages($, ".ui-pdp-gallery__figure img", ["data-zoom", "src", "data-src"]),
+      highlights: collectList($, ".ui-pdp-features li, .ui-vpp-highlighted-specs__features-list li"),
+      specifications
+    };
+  }
+};
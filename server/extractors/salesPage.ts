@@ -0,0 +1,27 @@
+import type { ProductExtractor } from "@/server/extractors";
+import { cleanText, collectImages, collectList, metaContent } from "@/server/extractors/utils";
+
+const pricePattern = /(R\$|US\$|\$|€)\s?\d[\d.,]*/;
+
+export const salesPageExtractor: ProductExtractor = {
+  id: "salesPage",
+  matches: (hostname) => /(^|\.)(hotmart\.com|kiwify\.com\.br|kiwify\.app)$/.test(hostname),
+  extract: ($) => {
+    const priceText = $("[class*='price'], [data-test*='price'], [data-testid*='price']")
+      .toArray()
+      .map((element) => cleanText($(element).text())?.match(pricePattern)?.[0])
+      .find(Boolean);
+
+    return {
+      title:
+        metaContent($, "meta[property='og:title']") ||
+        cleanText($("h1").first().text()) ||
+        cleanText($("title").text()),
+      description: metaContent($, "meta[property='og:description']") || metaContent($, "meta[name='description']"),
+      price: priceText,
+      brand: cleanText($("[class*='producer'] [class*='name'], [class*='author'] [class*='name']").first().text()),
+      images: collectImages($, "meta[property='og:image']", ["content"]),
+      highlights: collectList($, "main li, section li")
+    };
+  }
+};
@@ -0,0 +1,30 @@
+import type { ProductExtractor } from "@/server/extractors";
+import { cleanText, collectImages, metaContent } from "@/server/extractors/utils";
+
+export const shopeeExtractor: ProductExtractor = {
+  id: "shopee",
+  matches: (hostname) => /(^|\.)shopee\.[a-z.]+$/.test(hostname),
+  extract: ($) => {
+    const specifications: Record<string, string> = {};
+    $(".product-detail label, [class*='product-detail'] label").each((_, element) => {
+      const key = cleanText($(element).text());
+      const value = cleanText($(element).next().text());
+      if (key && value) {
+        specifications[key] = value;
+      }
+    });
+
+    return {
+      title:
+        cleanText($(".product-briefing h1, [class*='product-briefing'] h1").first().text()) ||
+        metaContent($, "meta[property='og:title']"),
+      description:
+        cleanText($(".product-detail [class*='description'], [class*='product-detail'] p").first().text()) ||
+        metaContent($, "meta[property='og:description']"),
+      price: metaContent($, "meta[property='product:price:amount']"),
+      brand: specifications.Marca ?? specifications.Brand,
+      images: collectImages($, "meta[property='og:image']", ["content"]),
+      specifications: Object.keys(specifications).length > 0 ? specifications : undefined
+    };
+  }
+};
@@ -0,0 +1,190 @@
+import type { Cheerio, CheerioAPI, Element } from "cheerio";
+import type { ExtractedFields } from "@/server/extractors";
+import type { ProductOffer } from "@/server/scraper";
+import { cleanText } from "@/server/extractors/utils";
+
+type StructuredNode = Record<string, unknown>;
+
+const valueAttributes: Record<string, string> = {
+  meta: "content",
+  link: "href",
+  a: "href",
+  img: "src",
+  source: "src",
+  time: "datetime",
+  data: "value",
+  meter: "value"
+};
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isNode(value: unknown): value is StructuredNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(node: StructuredNode, type: string): boolean {
+  return asArray(node["@type"]).some(
+    (value) => typeof value === "string" && value.replace(/^https?:\/\/schema\.org\//, "") === type
+  );
+}
+
+function text(value: unknown): string | undefined {
+  const first = asArray(value)[0];
+  if (typeof first === "string" || typeof first === "number") {
+    return cleanText(String(first));
+  }
+  if (isNode(first)) {
+    return text(first.name ?? first["@value"] ?? first.url);
+  }
+  return undefined;
+}
+
+function number(value: unknown): number | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+  const parsed = Number.parseFloat(raw.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function flattenJsonLd(value: unknown): StructuredNode[] {
+  return asArray(value).flatMap((entry) => {
+    if (!isNode(entry)) return [];
+    return [entry, ...flattenJsonLd(entry["@graph"])];
+  });
+}
+
+function readJsonLd($: CheerioAPI): StructuredNode[] {
+  return $("script[type='application/ld+json']")
+    .toArray()
+    .flatMap((element) => {
+      try {
+        return flattenJsonLd(JSON.parse($(element).contents().text()));
+      } catch {
+        return [];
+      }
+    });
+}
+
+function itemValue($: CheerioAPI, element: Cheerio<Element>): unknown {
+  if (element.is("[itemscope]")) {
+    return readMicrodataItem($, element);
+  }
+  const attribute = valueAttributes[element.prop("tagName")?.toLowerCase() ?? ""];
+  return cleanText((attribute && element.attr(attribute)) || element.attr("content") || element.text());
+}
+
+function readMicrodataItem($: CheerioAPI, scope: Cheerio<Element>): StructuredNode {
+  const node: StructuredNode = { "@type": asArray(scope.attr("itemtype")?.split(/\s+/)) };
+  scope.find("[itemprop]").each((_, child) => {
+    const property = $(child);
+    const owner = property.parent().closest("[itemscope]");
+    if (owner.length === 0 || owner.get(0) !== scope.get(0)) {
+      return;
+    }
+    const value = itemValue($, property);
+    if (value === undefined) return;
+    (property.attr("itemprop") ?? "").split(/\s+/).forEach((name) => {
+      node[name] = node[name] === undefined ? value : [...asArray(node[name]), value];
+    });
+  });
+  return node;
+}
+
+function readMicrodata($: CheerioAPI): StructuredNode[] {
+  return $("[itemscope]")
+    .toArray()
+    .filter((element) => $(element).parent().closest("[itemscope]").length === 0)
+    .map((element) => readMicrodataItem($, $(element)));
+}
+
+function normalizeAvailability(value?: string): string | undefined {
+  if (!value) return undefined;
+  const name = value.replace(/^https?:\/\/schema\.org\//, "");
+  return `https://schema.org/${name}`;
+}
+
+function readOffers(value: unknown): ProductOffer[] {
+  return asArray(value)
+    .filter(isNode)
+    .flatMap((offer): ProductOffer[] => {
+      if (hasType(offer, "AggregateOffer") && offer.offers) {
+        return readOffers(offer.offers);
+      }
+      const specification = isNode(offer.priceSpecification) ? offer.priceSpecification : {};
+      return [
+        {
+          price: text(offer.price ?? offer.lowPrice ?? specification.price),
+          priceCurrency: text(offer.priceCurrency ?? specification.priceCurrency),
+          availability: normalizeAvailability(text(offer.availability)),
+          url: text(offer.url),
+          seller: text(offer.seller)
+        }
+      ];
+    });
+}
+
+function readImages(value: unknown): string[] | undefined {
+  const images = asArray(value)
+    .map((image) => (isNode(image) ? text(image.contentUrl ?? image.url) : text(image)))
+    .filter((image): image is string => Boolean(image && /^https?:\/\//.test(image)));
+  return images.length > 0 ? Array.from(new Set(images)).slice(0, 6) : undefined;
+}
+
+function readSpecifications(value: unknown): Record<string, string> | undefined {
+  const specifications: Record<string, string> = {};
+  asArray(value)
+    .filter(isNode)
+    .forEach((property) => {
+      const key = text(property.name);
+      const propertyValue = text(property.value);
+      if (key && propertyValue) {
+        specifications[key] = propertyValue;
+      }
+    });
+  return Object.keys(specifications).length > 0 ? specifications : undefined;
+}
+
+function productFromNode(node: StructuredNode): ExtractedFields {
+  const offers = readOffers(node.offers);
+  const primaryOffer = offers.find((offer) => offer.price) ?? offers[0];
+  const rating = isNode(node.aggregateRating) ? node.aggregateRating : undefined;
+  const ratingValue = rating ? number(rating.ratingValue) : undefined;
+
+  return {
+    title: text(node.name),
+    description: text(node.description),
+    brand: text(node.brand ?? node.manufacturer),
+    images: readImages(node.image),
+    price: primaryOffer?.price,
+    currency: primaryOffer?.priceCurrency,
+    availability: primaryOffer?.availability,
+    offers: offers.length > 0 ? offers : undefined,
+    gtin: text(node.gtin13 ?? node.gtin ?? node.gtin12 ?? node.gtin14 ?? node.gtin8),
+    sku: text(node.sku),
+    mpn: text(node.mpn),
+    aggregateRating:
+      rating && ratingValue !== undefined
+        ? {
+            ratingValue,
+            reviewCount: number(rating.reviewCount ?? rating.ratingCount),
+            bestRating: number(rating.bestRating)
+          }
+        : undefined,
+    specifications: readSpecifications(node.additionalProperty)
+  };
+}
+
+export function extractStructuredData($: CheerioAPI): ExtractedFields {
+  const nodes = [...readJsonLd($), ...readMicrodata($)];
+  const product =
+    nodes.find((node) => hasType(node, "Product")) ??
+    nodes.find((node) => hasType(node, "ProductGroup") || hasType(node, "Book") || hasType(node, "Course"));
+
+  return {
+    ...(product ? productFromNode(product) : {}),
+    canonicalUrl: cleanText($("link[rel='canonical']").attr("href"))
+  };
+}
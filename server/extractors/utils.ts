@@ -0,0 +1,55 @@
+import type { CheerioAPI } from "cheerio";
+
+export function cleanText(input?: string | null): string | undefined {
+  if (!input) return undefined;
+  const cleaned = input.replace(/\s+/g, " ").trim();
+  return cleaned || undefined;
+}
+
+export function collectList($: CheerioAPI, selector: string, limit = 10): string[] | undefined {
+  const items: string[] = [];
+  $(selector)
+    .slice(0, limit)
+    .each((_, element) => {
+      const text = cleanText($(element).text());
+      if (text) {
+        items.push(text);
+      }
+    });
+  return items.length > 0 ? items : undefined;
+}
+
+export function collectTable($: CheerioAPI, selector: string): Record<string, string> | undefined {
+  const rows: Record<string, string> = {};
+  $(selector).each((_, element) => {
+    const cells = $(element).find("th, td");
+    if (cells.length === 2) {
+      const key = cleanText($(cells[0]).text());
+      const value = cleanText($(cells[1]).text());
+      if (key && value) {
+        rows[key] = value;
+      }
+    }
+  });
+  return Object.keys(rows).length > 0 ? rows : undefined;
+}
+
+export const nonProductImage = /(logo|sprite|pixel|spacer|tracking|beacon|badge|icon|1x1)|\.(gif|svg)(\?|$)/i;
+
+export function collectImages($: CheerioAPI, selector: string, attributes: string[], limit = 6): string[] | undefined {
+  const images = new Set<string>();
+  $(selector).each((_, element) => {
+    const src = attributes.map((attribute) => $(element).attr(attribute)).find(Boolean);
+    const width = Number.parseInt($(element).attr("width") ?? "", 10);
+    const height = Number.parseInt($(element).attr("height") ?? "", 10);
+    if (!src || !/^https?:\/\//.test(src) || nonProductImage.test(src) || width < 100 || height < 100) {
+      return;
+    }
+    images.add(src);
+  });
+  return images.size > 0 ? Array.from(images).slice(0, limit) : undefined;
+}
+
+export function metaContent($: CheerioAPI, selector: string): string | undefined {
+  return cleanText($(selector).attr("content"));
+}
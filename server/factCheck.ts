@@ -0,0 +1,280 @@
+import type { Article } from "@/utils/article";
+import { articleToPlainText } from "@/utils/article";
+import { findPriceMentions, parsePriceAmount, productPriceFormat } from "@/server/pricing";
+import type { ProductData } from "@/server/scraper";
+
+export type ClaimStatus = "supported" | "contradicted" | "unverifiable";
+
+export type ClaimKind = "price" | "battery" | "weight" | "dimensions" | "warranty" | "spec";
+
+export interface FactClaim {
+  text: string;
+  excerpt: string;
+  source: "article" | "review";
+  kind: ClaimKind;
+  status: ClaimStatus;
+  evidence?: string;
+}
+
+export interface FactCheckReport {
+  claims: FactClaim[];
+  counts: Record<ClaimStatus, number>;
+}
+
+interface UnitRule {
+  units: string;
+  dimension: string;
+  factor: number;
+  kind: ClaimKind;
+}
+
+interface Quantity {
+  text: string;
+  values: number[];
+  dimension: string;
+  kind: ClaimKind;
+  terms: Set<string>;
+}
+
+interface Fact {
+  quantity: Quantity;
+  evidence: string;
+}
+
+const unitRules: UnitRule[] = [
+  { units: "mAh", dimension: "charge", factor: 1, kind: "battery" },
+  { units: "Ah", dimension: "charge", factor: 1000, kind: "battery" },
+  { units: "Wh", dimension: "energy", factor: 1, kind: "battery" },
+  { units: "kg|quilos?|kilos?", dimension: "mass", factor: 1000, kind: "weight" },
+  { units: "g|gramas?|gramos?|grams?", dimension: "mass", factor: 1, kind: "weight" },
+  { units: "lbs?|pounds?|libras?", dimension: "mass", factor: 453.592, kind: "weight" },
+  { units: "oz|ounces?|onças?|onzas?", dimension: "mass", factor: 28.3495, kind: "weight" },
+  { units: "mm", dimension: "length", factor: 1, kind: "dimensions" },
+  { units: "cm", dimension: "length", factor: 10, kind: "dimensions" },
+  { units: "m|metros?|meters?|metres?", dimension: "length", factor: 1000, kind: "dimensions" },
+  { units: '"|inch(?:es)?|polegadas?|pulgadas?', dimension: "length", factor: 25.4, kind: "dimensions" },
+  { units: "meses|months?|m[eê]s", dimension: "period", factor: 1, kind: "warranty" },
+  { units: "anos?|años?|years?", dimension: "period", factor: 12, kind: "warranty" },
+  { units: "h|hrs?|hours?|horas?", dimension: "duration", factor: 60, kind: "spec" },
+  { units: "min|minutes?|minutos?", dimension: "duration", factor: 1, kind: "spec" },
+  { units: "W|watts?", dimension: "power", factor: 1, kind: "spec" },
+  { units: "V|volts?", dimension: "voltage", factor: 1, kind: "spec" },
+  { units: "TB", dimension: "storage", factor: 1024, kind: "spec" },
+  { units: "GB", dimension: "storage", factor: 1, kind: "spec" },
+  { units: "MP|megapixels?", dimension: "resolution", factor: 1, kind: "spec" },
+  { units: "GHz", dimension: "frequency", factor: 1e9, kind: "spec" },
+  { units: "MHz", dimension: "frequency", factor: 1e6, kind: "spec" },
+  { units: "Hz", dimension: "frequency", factor: 1, kind: "spec" },
+  { units: "dB", dimension: "loudness", factor: 1, kind: "spec" },
+  { units: "ml|mL", dimension: "volume", factor: 1, kind: "spec" },
+  { units: "L|litros?|liters?|litres?", dimension: "volume", factor: 1000, kind: "spec" }
+];
+
+const number = String.raw`\d+(?:[.,]\d+)*`;
+const quantityPattern = new RegExp(
+  String.raw`(?<![\p{L}\d.,])(${number})(?:\s?[x×]\s?(${number}))?(?:\s?[x×]\s?(${number}))?\s?` +
+    `(${unitRules.map((rule) => rule.units).join("|")})(?![\\p{L}\\d])`,
+  "gu"
+);
+
+const topicSynonyms: Record<string, string[]> = {
+  battery: ["battery", "bateria", "mah", "autonomy", "autonomia", "charge", "carga"],
+  weight: ["weight", "weighs", "weigh", "peso", "pesa", "pesando", "heavy", "pesado", "light", "leve", "ligero"],
+  dimensions: [
+    "dimension",
+    "dimensions",
+    "dimensoes",
+    "dimensiones",
+    "size",
+    "tamanho",
+    "tamano",
+    "height",
+    "altura",
+    "width",
+    "largura",
+    "ancho",
+    "depth",
+    "profundidade",
+    "profundidad",
+    "length",
+    "comprimento",
+    "longitud"
+  ],
+  screen: ["screen", "display", "tela", "pantalla"],
+  warranty: ["warranty", "guarantee", "garantia"],
+  storage: ["storage", "armazenamento", "almacenamiento", "memory", "memoria", "ram"],
+  camera: ["camera", "camara", "lens", "lente"],
+  power: ["power", "potencia", "charging", "carregamento", "carga"]
+};
+
+const topicIndex = new Map(
+  Object.entries(topicSynonyms).flatMap(([topic, synonyms]) => synonyms.map((word) => [word, topic] as const))
+);
+
+const stopWords = new Set(["with", "this", "that", "from", "para", "como", "have", "tiene", "mais", "more", "than"]);
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function contextTerms(text: string): Set<string> {
+  const words = (normalize(text).match(/\p{L}{4,}/gu) ?? []).filter((word) => !stopWords.has(word));
+  return new Set(words.flatMap((word) => (topicIndex.has(word) ? [word, `#${topicIndex.get(word)}`] : [word])));
+}
+
+function overlaps(a: Set<string>, b: Set<string>): boolean {
+  return Array.from(a).some((term) => b.has(term));
+}
+
+function findRule(unit: string): UnitRule | undefined {
+  return unitRules.find((rule) => new RegExp(`^(?:${rule.units})$`, "u").test(unit));
+}
+
+function clauseAround(text: string, index: number): string {
+  const boundary = /[,;:](?=\s)|\s(?:e|and|y|but|mas|pero)\s/g;
+  let start = 0;
+  let end = text.length;
+  for (const match of text.matchAll(boundary)) {
+    const at = match.index ?? 0;
+    if (at < index) {
+      start = at + match[0].length;
+    } else {
+      end = at;
+      break;
+    }
+  }
+  return text.slice(start, end);
+}
+
+function extractQuantities(text: string, context?: string): Quantity[] {
+  return Array.from(text.matchAll(quantityPattern)).flatMap((match) => {
+    const rule = findRule(match[4]);
+    const terms = contextTerms(context ?? clauseAround(text, match.index ?? 0));
+    const values = [match[1], match[2], match[3]]
+      .filter((value): value is string => Boolean(value))
+      .map((value) => parsePriceAmount(value));
+    if (!rule || values.some((value) => value === null)) {
+      return [];
+    }
+    return [
+      {
+        text: match[0].trim(),
+        values: (values as number[]).map((value) => value * rule.factor),
+        dimension: rule.dimension,
+        kind: rule.dimension === "period" && !terms.has("#warranty") ? "spec" : rule.kind,
+        terms
+      }
+    ];
+  });
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(b) * 0.02, 0.01);
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split("\n")
+    .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function collectFacts(product: ProductData): Fact[] {
+  const sources = [
+    ...Object.entries(product.specifications ?? {}).map(([label, value]) => ({
+      text: value,
+      context: `${label} ${value}`,
+      evidence: `${label}: ${value}`
+    })),
+    ...[product.title, ...(product.highlights ?? []), ...sentences(product.description ?? "")]
+      .filter((text): text is string => Boolean(text))
+      .map((text) => ({ text, context: undefined, evidence: text.length > 140 ? `${text.slice(0, 137)}...` : text }))
+  ];
+  return sources.flatMap((source) =>
+    extractQuantities(source.text, source.context).map((quantity) => ({ quantity, evidence: source.evidence }))
+  );
+}
+
+function verifyQuantity(quantity: Quantity, facts: Fact[]): Pick<FactClaim, "status" | "evidence"> {
+  const candidates = facts.filter((fact) => fact.quantity.dimension === quantity.dimension);
+  const match = candidates.find((fact) =>
+    quantity.values.every((value) => fact.quantity.values.some((known) => sameValue(value, known)))
+  );
+  if (match) {
+    return { status: "supported", evidence: match.evidence };
+  }
+  const related = candidates.find(
+    (fact) => quantity.dimension === "charge" || quantity.kind === "warranty" || overlaps(quantity.terms, fact.quantity.terms)
+  );
+  return related ? { status: "contradicted", evidence: related.evidence } : { status: "unverifiable" };
+}
+
+function verifyPrice(amount: number, product: ProductData): Pick<FactClaim, "status" | "evidence"> {
+  const known = [
+    { price: product.price, format: productPriceFormat(product) },
+    ...(product.offers ?? []).map((offer) => ({ price: offer.price, format: "structured" as const }))
+  ].flatMap(({ price, format }) => {
+    const parsed = price ? parsePriceAmount(price, format) : null;
+    return price && parsed !== null ? [{ price, amount: parsed }] : [];
+  });
+  if (known.length === 0) {
+    return { status: "unverifiable" };
+  }
+  const match = known.find((entry) => Math.abs(entry.amount - amount) <= entry.amount * 0.01);
+  return match
+    ? { status: "supported", evidence: `Price: ${match.price}` }
+    : { status: "contradicted", evidence: `Price: ${known.map((entry) => entry.price).join(", ")}` };
+}
+
+export function checkFacts(input: {
+  article: Article;
+  reviews: Array<{ summary: string; details: string }>;
+  product: ProductData;
+}): FactCheckReport {
+  const facts = collectFacts(input.product);
+  const texts = [
+    ...sentences(articleToPlainText(input.article)).map((excerpt) => ({ excerpt, source: "article" as const })),
+    ...input.reviews
+      .flatMap((review) => sentences(`${review.summary}\n${review.details}`))
+      .map((excerpt) => ({ excerpt, source: "review" as const }))
+  ];
+
+  const seen = new Set<string>();
+  const claims: FactClaim[] = texts.flatMap(({ excerpt, source }) => {
+    const found: FactClaim[] = [
+      ...findPriceMentions(excerpt).map((mention) => ({
+        text: mention.text,
+        excerpt,
+        source,
+        kind: "price" as const,
+        ...verifyPrice(mention.amount, input.product)
+      })),
+      ...extractQuantities(excerpt).map((quantity) => ({
+        text: quantity.text,
+        excerpt,
+        source,
+        kind: quantity.kind,
+        ...verifyQuantity(quantity, facts)
+      }))
+    ];
+    return found.filter((claim) => {
+      const key = `${claim.source}|${claim.text}|${claim.excerpt}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  });
+
+  return {
+    claims,
+    counts: {
+      supported: claims.filter((claim) => claim.status === "supported").length,
+      contradicted: claims.filter((claim) => claim.status === "contradicted").length,
+      unverifiable: claims.filter((claim) => claim.status === "unverifiable").length
+    }
+  };
+}
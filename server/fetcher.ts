@@ -0,0 +1,381 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import axios, { type AxiosResponse } from "axios";
+
+export interface FetchOptions {
+  accept?: string[];
+  maxBytes?: number;
+  respectRobots?: boolean;
+}
+
+export interface FetchedFile {
+  url: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface FetchedPage {
+  url: string;
+  contentType: string;
+  charset: string;
+  body: string;
+}
+
+export interface GuardedProxy {
+  url: string;
+  close: () => Promise<void>;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+export const browserUserAgent =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+const htmlTypes = ["text/html", "application/xhtml+xml"];
+const maxRedirects = 5;
+const defaultMaxBytes = 5 * 1024 * 1024;
+const robotsTtlMs = 60 * 60 * 1000;
+
+const blockedRanges = new net.BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.0.2.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["198.51.100.0", 24],
+    ["203.0.113.0", 24],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4]
+  ] as const
+).forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, "ipv4"));
+(
+  [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["2001:db8::", 32],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8]
+  ] as const
+).forEach(([address, prefix]) => blockedRanges.addSubnet(address, prefix, "ipv6"));
+
+const robotsCache = new Map<string, { expires: number; rules: RobotsRule[] }>();
+
+function allowPrivateHosts(): boolean {
+  return process.env.SCRAPER_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !blockedRanges.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function blockedAddressError(hostname: string, address: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(
+    `Refusing to fetch ${hostname}: ${address} is a private or reserved address.`
+  );
+  error.code = "EBLOCKEDADDRESS";
+  return error;
+}
+
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    const blocked = allowPrivateHosts() ? undefined : addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked) {
+      callback(blockedAddressError(hostname, blocked.address), "");
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs can be fetched, got ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new Error("URLs with embedded credentials cannot be fetched.");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && !allowPrivateHosts() && !isPublicAddress(host)) {
+    throw blockedAddressError(host, host);
+  }
+}
+
+export async function assertPublicUrl(target: string | URL): Promise<void> {
+  const url = new URL(target);
+  assertFetchableUrl(url);
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) || allowPrivateHosts()) return;
+  const addresses = await dns.promises.lookup(host, { all: true });
+  const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+  if (blocked) {
+    throw blockedAddressError(host, blocked.address);
+  }
+}
+
+function headerValue(response: AxiosResponse, name: string): string {
+  const value = response.headers[name];
+  return typeof value === "string" ? value : "";
+}
+
+async function followRedirects(
+  start: URL,
+  options: { accept: string[]; maxBytes: number; respectRobots: boolean }
+): Promise<{ url: URL; response: AxiosResponse<ArrayBuffer> }> {
+  let url = start;
+  for (let hop = 0; hop <= maxRedirects; hop += 1) {
+    assertFetchableUrl(url);
+    if (options.respectRobots) {
+      await assertAllowedByRobots(url);
+    }
+    const response = await axios.get<ArrayBuffer>(url.href, {
+      timeout: 10000,
+      responseType: "arraybuffer",
+      maxRedirects: 0,
+      maxContentLength: options.maxBytes,
+      validateStatus: () => true,
+      httpAgent,
+      httpsAgent,
+      headers: {
+        "User-Agent": browserUserAgent,
+        ...(options.accept.length > 0 ? { Accept: options.accept.join(", ") } : {})
+      }
+    });
+    const location = headerValue(response, "location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      url = new URL(location, url);
+      continue;
+    }
+    return { url, response };
+  }
+  throw new Error(`Too many redirects while fetching ${start.href}.`);
+}
+
+function isSupportedCharset(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidUtf8(bytes: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function detectCharset(bytes: Buffer, contentType: string): string {
+  const fromHeader = /charset=["']?([\w.:-]+)/i.exec(contentType)?.[1];
+  const head = bytes.subarray(0, 4096).toString("latin1");
+  const fromMeta = /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1];
+  const declared = [fromHeader, fromMeta].find((label): label is string => Boolean(label && isSupportedCharset(label)));
+  const encoding = declared ? new TextDecoder(declared).encoding : "utf-8";
+  if (encoding === "utf-8" && !isValidUtf8(bytes)) {
+    return "windows-1252";
+  }
+  return encoding;
+}
+
+function compileRobotsPattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const source = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`);
+}
+
+export function parseRobotsTxt(text: string): RobotsRule[] {
+  const rules: RobotsRule[] = [];
+  let agents: string[] = [];
+  let inRules = false;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (field === "user-agent") {
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+    } else if (field === "allow" || field === "disallow") {
+      inRules = true;
+      if (agents.includes("*") && value) {
+        rules.push({ allow: field === "allow", pattern: compileRobotsPattern(value), length: value.length });
+      }
+    }
+  }
+  return rules;
+}
+
+export function isAllowedByRobots(rules: RobotsRule[], path: string): boolean {
+  const matches = rules.filter((rule) => rule.pattern.test(path));
+  if (matches.length === 0) return true;
+  const longest = Math.max(...matches.map((rule) => rule.length));
+  return matches.some((rule) => rule.length === longest && rule.allow);
+}
+
+async function loadRobotsRules(origin: string): Promise<RobotsRule[]> {
+  try {
+    const { response } = await followRedirects(new URL("/robots.txt", origin), {
+      accept: ["text/plain"],
+      maxBytes: 512 * 1024,
+      respectRobots: false
+    });
+    if (response.status >= 400 && response.status < 500) return [];
+    if (response.status >= 500) return [{ allow: false, pattern: /^\//, length: 1 }];
+    return parseRobotsTxt(Buffer.from(response.data).toString("utf8"));
+  } catch (error) {
+    console.warn(`Could not load robots.txt for ${origin}`, error);
+    return [{ allow: false, pattern: /^\//, length: 1 }];
+  }
+}
+
+async function robotsAllow(url: URL): Promise<boolean> {
+  let cached = robotsCache.get(url.origin);
+  if (!cached || cached.expires <= Date.now()) {
+    cached = { expires: Date.now() + robotsTtlMs, rules: await loadRobotsRules(url.origin) };
+    robotsCache.set(url.origin, cached);
+  }
+  return isAllowedByRobots(cached.rules, `${url.pathname}${url.search}`);
+}
+
+export async function assertAllowedByRobots(url: URL): Promise<void> {
+  if (!(await robotsAllow(url))) {
+    throw new Error(`robots.txt on ${url.host} disallows fetching ${url.pathname}.`);
+  }
+}
+
+export async function fetchFile(target: string, options: FetchOptions = {}): Promise<FetchedFile> {
+  const accept = options.accept ?? htmlTypes;
+  const { url, response } = await followRedirects(new URL(target), {
+    accept,
+    maxBytes: options.maxBytes ?? defaultMaxBytes,
+    respectRobots: options.respectRobots ?? false
+  });
+  if (response.status >= 400) {
+    throw new Error(`${url.href} responded with HTTP ${response.status}.`);
+  }
+  const contentType = headerValue(response, "content-type");
+  const mediaType = contentType.split(";")[0].trim().toLowerCase();
+  if (mediaType && accept.length > 0 && !accept.includes(mediaType)) {
+    throw new Error(`${url.href} returned ${mediaType}, expected ${accept.join(" or ")}.`);
+  }
+  return { url: url.href, contentType, data: Buffer.from(response.data) };
+}
+
+export async function fetchPage(target: string, options: FetchOptions = {}): Promise<FetchedPage> {
+  const file = await fetchFile(target, options);
+  const charset = detectCharset(file.data, file.contentType);
+  return { url: file.url, contentType: file.contentType, charset, body: new TextDecoder(charset).decode(file.data) };
+}
+
+const hopByHopHeaders = ["connection", "keep-alive", "proxy-connection", "proxy-authorization", "te", "upgrade"];
+
+export function startGuardedProxy(): Promise<GuardedProxy> {
+  const server = http.createServer((req, res) => {
+    let target: URL;
+    try {
+      target = new URL(req.url ?? "");
+      assertFetchableUrl(target);
+    } catch (error) {
+      res.writeHead(403, { "Content-Type": "text/plain" });
+      res.end(error instanceof Error ? error.message : "Blocked.");
+      return;
+    }
+    const headers = { ...req.headers };
+    hopByHopHeaders.forEach((name) => delete headers[name]);
+    const upstream = (target.protocol === "https:" ? https : http).request(
+      target,
+      { method: req.method, headers, agent: target.protocol === "https:" ? httpsAgent : httpAgent },
+      (response) => {
+        res.writeHead(response.statusCode ?? 502, response.headers);
+        response.pipe(res);
+      }
+    );
+    upstream.on("error", (error) => {
+      if (!res.headersSent) {
+        res.writeHead(502, { "Content-Type": "text/plain" });
+      }
+      res.end(error.message);
+    });
+    req.pipe(upstream);
+  });
+
+  const tunnels = new Set<net.Socket>();
+  server.on("connect", (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    tunnels.add(socket);
+    socket.on("close", () => tunnels.delete(socket));
+    socket.on("error", () => socket.destroy());
+    let target: URL;
+    try {
+      target = new URL(`https://${req.url ?? ""}`);
+      assertFetchableUrl(target);
+    } catch {
+      socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+      return;
+    }
+    let established = false;
+    const upstream = net.connect(
+      { host: target.hostname.replace(/^\[|\]$/g, ""), port: Number(target.port || 443), lookup: guardedLookup },
+      () => {
+        established = true;
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      }
+    );
+    upstream.on("error", () => (established ? socket.destroy() : socket.end("HTTP/1.1 502 Bad Gateway\r\n\r\n")));
+    socket.on("close", () => upstream.destroy());
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise((done) => {
+            tunnels.forEach((socket) => socket.destroy());
+            server.closeAllConnections();
+            server.close(() => done());
+          })
+      });
+    });
+  });
+}
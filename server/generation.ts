@@ -0,0 +1,408 @@
+import { z } from "zod";
+import {
+  affiliateLinksSchema,
+  injectAffiliateLinks,
+  type AffiliateLinkReport,
+  type AffiliateLinks
+} from "@/server/affiliates";
+import { checkCompliance, insertDisclosure, type ComplianceReport } from "@/server/compliance";
+import { completeDraft, type Draft, type DraftDiagnostics } from "@/server/draft";
+import { checkFacts, type FactCheckReport } from "@/server/factCheck";
+import { recordGeneration } from "@/server/history";
+import {
+  generateImages,
+  imageProviderIds,
+  resolveImageOptions,
+  type GeneratedImage
+} from "@/server/imageGen";
+import { aspectRatios, imageCandidates, processImages, schemaImages, type ImageSet } from "@/server/images";
+import { getLlmProvider, llmProviderIds, resolveLlmSettings, type LlmSettings } from "@/server/llm";
+import { formatPrice, normalizePrice, productPriceFormat } from "@/server/pricing";
+import { buildOffers, generateDiscoverySchema, type SchemaTypeToggles } from "@/server/schema";
+import { validateRichResults, type SchemaValidationResult } from "@/server/schemaValidator";
+import { auditSeo, type SeoAudit } from "@/server/seoAudit";
+import { scrapeProductData, type ExtractionReport, type ProductData } from "@/server/scraper";
+import { spellCheckArticle, type SpellCheckResult } from "@/server/spellcheck";
+import {
+  applyPlainText,
+  articleFormatInstructions,
+  articleToPlainText,
+  renderArticleHtml,
+  renderArticleMarkdown,
+  type ArticleFigure,
+  type Article
+} from "@/utils/article";
+import { localeSchema } from "@/utils/locale";
+
+export const requestSchema = z.object({
+  productUrl: z.string().url(),
+  targetLocale: localeSchema,
+  targetKeywords: z.string().optional().default(""),
+  outlineStyle: z.string().min(3),
+  tone: z.string().min(3),
+  callToAction: z.string().min(3),
+  geoPersona: z.string().min(3),
+  includeDiscoverySchema: z.boolean().optional(),
+  schemaTypes: z
+    .object({
+      product: z.boolean(),
+      article: z.boolean(),
+      faq: z.boolean(),
+      breadcrumbs: z.boolean()
+    })
+    .optional(),
+  articleUrl: z.string().url().optional(),
+  authorName: z.string().min(2).optional().default("Editorial Team"),
+  failOnSchemaErrors: z.boolean().optional().default(false),
+  spellcheckMode: z.enum(["rewrite", "suggest"]).optional().default("rewrite"),
+  affiliateLinks: affiliateLinksSchema,
+  trackingTag: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{1,64}$/)
+    .optional()
+    .default("review-article"),
+  imageStyle: z.string().optional().default("Product hero shot, cinematic lighting"),
+  imageOptions: z
+    .object({
+      provider: z.enum(imageProviderIds).optional(),
+      aspectRatio: z.enum(aspectRatios).optional(),
+      seed: z.number().int().min(0).max(2147483647).optional(),
+      negativePrompt: z.string().trim().max(500).optional()
+    })
+    .optional(),
+  llm: z
+    .object({
+      provider: z.enum(llmProviderIds).optional(),
+      model: z.string().min(1).optional(),
+      temperature: z.number().min(0).max(2).optional()
+    })
+    .optional()
+});
+
+export type GenerateBody = z.infer<typeof requestSchema>;
+
+export const briefSchema = requestSchema.omit({ productUrl: true });
+
+export interface GenerationResult {
+  article: Article;
+  exports: { markdown: string; html: string };
+  seo: Draft["seo"];
+  product: ProductData;
+  extraction: ExtractionReport;
+  reviews: Draft["reviews"];
+  affiliateLinks: AffiliateLinks;
+  affiliateReport: { links: AffiliateLinkReport[]; discarded: string[] };
+  discoverySchema: Record<string, unknown> | null;
+  schemaWarnings: string[];
+  schemaValidation: SchemaValidationResult | null;
+  images: GeneratedImage[];
+  imageSet: ImageSet;
+  llm: LlmSettings;
+  diagnostics: DraftDiagnostics;
+  spellcheck: SpellCheckResult;
+  compliance: ComplianceReport;
+  factCheck: FactCheckReport;
+  seoAudit: SeoAudit;
+  historyId?: string;
+}
+
+export type GenerationEvent =
+  | { type: "scrape"; product: ProductData; extraction: ExtractionReport }
+  | { type: "token"; text: string; attempt: number }
+  | Pick<GenerationResult, "seo" | "reviews" | "llm" | "diagnostics"> & { type: "draft" }
+  | { type: "spellcheck"; spellcheck: SpellCheckResult }
+  | Pick<GenerationResult, "article" | "exports" | "affiliateReport" | "compliance" | "factCheck"> & { type: "article" }
+  | Pick<GenerationResult, "images" | "imageSet" | "exports"> & { type: "images" }
+  | { type: "audit"; seoAudit: SeoAudit }
+  | Pick<GenerationResult, "discoverySchema" | "schemaWarnings" | "schemaValidation"> & { type: "schema" };
+
+export interface GenerationOptions {
+  onEvent?: (event: GenerationEvent) => void;
+  streamTokens?: boolean;
+  signal?: AbortSignal;
+}
+
+export type GenerationOutcome =
+  | { status: 200; body: GenerationResult }
+  | {
+      status: 422;
+      body: {
+        error: string;
+        discoverySchema: Record<string, unknown> | null;
+        schemaValidation: SchemaValidationResult;
+      };
+    };
+
+export function draftContext(request: GenerateBody, product: ProductData) {
+  const price = normalizePrice(product.price, {
+    currencyHint: product.currency,
+    locale: request.targetLocale,
+    format: productPriceFormat(product)
+  });
+  return {
+    locale: request.targetLocale,
+    localizedPrice: price ? formatPrice(price, request.targetLocale) : undefined,
+    targetKeywords: request.targetKeywords,
+    outlineStyle: request.outlineStyle,
+    tone: request.tone,
+    geoPersona: request.geoPersona,
+    callToAction: request.callToAction,
+    product,
+    affiliateLinks: request.affiliateLinks
+  };
+}
+
+async function generateDraft(input: {
+  product: ProductData;
+  request: GenerateBody;
+  onToken?: (token: string, attempt: number) => void;
+  signal?: AbortSignal;
+}): Promise<Draft & { llm: LlmSettings; diagnostics: DraftDiagnostics }> {
+  const llm = resolveLlmSettings(input.request.llm);
+  const { draft, diagnostics } = await completeDraft({
+    provider: getLlmProvider(llm.provider),
+    request: {
+      model: llm.model,
+      temperature: llm.temperature,
+      signal: input.signal,
+      system: `You are an SEO-savvy review journalist who writes truthful, conversion-oriented articles. Produce JSON with fields: article, seo {title, metaDescription, keywords, ogTitle, ogDescription}, reviews [{reviewer, rating (1-5), summary, details}], imagePrompts. Article must include affiliate callouts referencing every valid affiliate link provided. Reviews must be original but grounded in product facts. Keep tone trustworthy and localized for the target locale. ${articleFormatInstructions}`,
+      user: JSON.stringify(draftContext(input.request, input.product))
+    },
+    fallback: {
+      headline: input.product.title ?? "Product review",
+      description: (input.product.description ?? input.product.title ?? "").slice(0, 155)
+    },
+    onToken: input.onToken
+  });
+
+  if (diagnostics.repairs.length > 0) {
+    console.warn(`Repaired ${llm.provider} draft after ${diagnostics.attempts} attempt(s):`, diagnostics.repairs);
+  }
+  return { ...draft, llm, diagnostics };
+}
+
+export function renderExports(article: Article, figures: ArticleFigure[] = []): GenerationResult["exports"] {
+  return { markdown: renderArticleMarkdown(article, figures), html: renderArticleHtml(article, figures) };
+}
+
+export function withImageText(images: GeneratedImage[], imageSet: ImageSet): GeneratedImage[] {
+  return images.map((image) => ({
+    ...image,
+    alt: imageSet.images.find((processed) => processed.sourceUrl === image.url)?.alt ?? image.alt
+  }));
+}
+
+export function resolveSchemaTypes(
+  body: Pick<GenerateBody, "schemaTypes" | "includeDiscoverySchema">
+): SchemaTypeToggles {
+  if (body.schemaTypes) {
+    return body.schemaTypes;
+  }
+  const enabled = body.includeDiscoverySchema ?? true;
+  return { product: enabled, article: enabled, faq: enabled, breadcrumbs: enabled };
+}
+
+export function buildDiscovery(input: {
+  body: GenerateBody;
+  article: Article;
+  seo: Draft["seo"];
+  reviews: Draft["reviews"];
+  product: ProductData;
+  images: GeneratedImage[];
+  imageSet?: ImageSet;
+  datePublished: string;
+  dateModified?: string;
+}): Pick<GenerationResult, "discoverySchema" | "schemaWarnings" | "schemaValidation"> {
+  const { body } = input;
+  const processed = input.imageSet ? schemaImages(input.imageSet) : { article: [], product: [] };
+  const imageWarnings =
+    input.imageSet && input.imageSet.images.length > 0 && processed.article.length === 0
+      ? ["Processed images have relative URLs; set IMAGE_BASE_URL so the JSON-LD can reference them."]
+      : [];
+  const product =
+    processed.product.length > 0 ? { ...input.product, images: processed.product } : input.product;
+  const offers = buildOffers({
+    product: input.product,
+    affiliateLinks: body.affiliateLinks,
+    locale: body.targetLocale
+  });
+  const fallbackImages = input.images.filter((image) => image.status === "generated");
+  const schemaTypes = resolveSchemaTypes(body);
+  const discovery = generateDiscoverySchema({
+    article: input.article,
+    seo: input.seo,
+    reviews: input.reviews,
+    product,
+    offers: offers.offers,
+    images: processed.article.length > 0 ? processed.article : fallbackImages,
+    locale: body.targetLocale,
+    authorName: body.authorName,
+    pageUrl: body.articleUrl,
+    datePublished: input.datePublished,
+    dateModified: input.dateModified,
+    types: schemaTypes
+  });
+  return {
+    discoverySchema: discovery.schema,
+    schemaWarnings: [...(schemaTypes.product ? offers.warnings : []), ...imageWarnings, ...discovery.warnings],
+    schemaValidation: discovery.schema ? validateRichResults(discovery.schema) : null
+  };
+}
+
+export async function generateFromProduct(
+  body: GenerateBody,
+  scraped: { product: ProductData; extraction: ExtractionReport },
+  options: GenerationOptions = {}
+): Promise<GenerationOutcome> {
+  const { product, extraction } = scraped;
+  const { onEvent = () => undefined, signal } = options;
+  const generation = await generateDraft({
+    product,
+    request: body,
+    onToken: options.streamTokens ? (text, attempt) => onEvent({ type: "token", text, attempt }) : undefined,
+    signal
+  });
+  signal?.throwIfAborted();
+  onEvent({
+    type: "draft",
+    seo: generation.seo,
+    reviews: generation.reviews,
+    llm: generation.llm,
+    diagnostics: generation.diagnostics
+  });
+
+  const affiliates = injectAffiliateLinks({
+    article: generation.article,
+    affiliateLinks: body.affiliateLinks,
+    locale: body.targetLocale,
+    trackingTag: body.trackingTag
+  });
+
+  const hasAffiliateLinks = Object.values(body.affiliateLinks).some(Boolean);
+  const disclosed = insertDisclosure({
+    article: affiliates.article,
+    locale: body.targetLocale,
+    hasAffiliateLinks
+  });
+
+  const spellChecked = await spellCheckArticle({
+    text: articleToPlainText(disclosed),
+    locale: body.targetLocale,
+    mode: body.spellcheckMode,
+    product
+  });
+  onEvent({ type: "spellcheck", spellcheck: spellChecked });
+  signal?.throwIfAborted();
+
+  const article = applyPlainText(disclosed, spellChecked.corrected);
+  const compliance = checkCompliance({
+    article,
+    reviews: generation.reviews,
+    locale: body.targetLocale,
+    price: product.price,
+    priceFormat: productPriceFormat(product),
+    hasAffiliateLinks
+  });
+  const factCheck = checkFacts({ article, reviews: generation.reviews, product });
+  const draftExports = renderExports(article);
+  const affiliateReport = {
+    links: affiliates.links,
+    discarded: affiliates.discarded
+  };
+  onEvent({ type: "article", article, exports: draftExports, affiliateReport, compliance, factCheck });
+
+  const generatedImages = await generateImages({
+    prompts: generation.imagePrompts,
+    product,
+    style: body.imageStyle,
+    options: resolveImageOptions(body.imageOptions)
+  });
+  const imageSet = await processImages({
+    candidates: imageCandidates(product, generatedImages),
+    product,
+    locale: body.targetLocale,
+    llm: generation.llm
+  });
+  const images = withImageText(generatedImages, imageSet);
+  const exports = renderExports(article, imageSet.images);
+  onEvent({ type: "images", images, imageSet, exports });
+  signal?.throwIfAborted();
+
+  const seoAudit = auditSeo({
+    article,
+    seo: generation.seo,
+    targetKeywords: body.targetKeywords,
+    locale: body.targetLocale,
+    images: imageSet.images,
+    pageUrl: body.articleUrl
+  });
+  onEvent({ type: "audit", seoAudit });
+
+  const { discoverySchema, schemaWarnings, schemaValidation } = buildDiscovery({
+    body,
+    article,
+    seo: generation.seo,
+    reviews: generation.reviews,
+    product,
+    images,
+    imageSet,
+    datePublished: new Date().toISOString()
+  });
+  onEvent({ type: "schema", discoverySchema, schemaWarnings, schemaValidation });
+  if (body.failOnSchemaErrors && schemaValidation && !schemaValidation.valid) {
+    return {
+      status: 422,
+      body: {
+        error: "Discovery schema failed rich results validation.",
+        discoverySchema,
+        schemaValidation
+      }
+    };
+  }
+
+  return {
+    status: 200,
+    body: {
+      article,
+      exports,
+      seo: generation.seo,
+      product,
+      extraction,
+      reviews: generation.reviews,
+      affiliateLinks: body.affiliateLinks,
+      affiliateReport,
+      discoverySchema,
+      schemaWarnings,
+      schemaValidation,
+      images,
+      imageSet,
+      llm: generation.llm,
+      diagnostics: generation.diagnostics,
+      spellcheck: spellChecked,
+      compliance,
+      factCheck,
+      seoAudit
+    }
+  };
+}
+
+export async function recordHistory(body: GenerateBody, result: GenerationResult): Promise<void> {
+  try {
+    result.historyId = await recordGeneration(body, result);
+  } catch (error) {
+    console.error("Failed to record generation history", error);
+  }
+}
+
+export async function runGeneration(body: GenerateBody, options: GenerationOptions = {}): Promise<GenerationOutcome> {
+  const scraped = await scrapeProductData(body.productUrl);
+  options.signal?.throwIfAborted();
+  options.onEvent?.({ type: "scrape", ...scraped });
+
+  const outcome = await generateFromProduct(body, scraped, options);
+  options.signal?.throwIfAborted();
+  if (outcome.status === 200) {
+    await recordHistory(body, outcome.body);
+  }
+  return outcome;
+}
@@ -0,0 +1,77 @@
+import { randomBytes } from "crypto";
+import path from "path";
+import type { GenerateBody, GenerationResult } from "@/server/generation";
+import type { WordPressPublication } from "@/server/wordpress";
+import { assertSafeId, dataPath, listDirectory, readJsonFile, removeFile, writeJsonFile } from "@/server/storage";
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  request: GenerateBody;
+  response: GenerationResult;
+  wordpress?: WordPressPublication;
+}
+
+export interface HistorySummary {
+  id: string;
+  createdAt: string;
+  productUrl: string;
+  title: string;
+  locale: string;
+  provider: string;
+  model: string;
+}
+
+function entryFile(id: string): string {
+  return path.join(dataPath("history"), `${assertSafeId(id, "history")}.json`);
+}
+
+function summarize(entry: HistoryEntry): HistorySummary {
+  return {
+    id: entry.id,
+    createdAt: entry.createdAt,
+    productUrl: entry.request.productUrl,
+    title: entry.response.article.headline,
+    locale: entry.request.targetLocale,
+    provider: entry.response.llm.provider,
+    model: entry.response.llm.model
+  };
+}
+
+export async function recordGeneration(request: GenerateBody, response: GenerationResult): Promise<string> {
+  const createdAt = new Date().toISOString();
+  const id = `${createdAt.replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
+  await writeJsonFile(entryFile(id), { id, createdAt, request, response } satisfies HistoryEntry);
+  return id;
+}
+
+export async function listHistory(options: { limit?: number; offset?: number } = {}): Promise<HistorySummary[]> {
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const ids = (await listDirectory(dataPath("history"), "files"))
+    .filter((name) => name.endsWith(".json"))
+    .map((name) => name.replace(/\.json$/, ""))
+    .sort()
+    .reverse()
+    .slice(offset, offset + limit);
+  const entries = await Promise.all(ids.map((id) => getHistoryEntry(id)));
+  return entries.filter((entry): entry is HistoryEntry => Boolean(entry)).map(summarize);
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | null> {
+  return readJsonFile<HistoryEntry>(entryFile(id));
+}
+
+export async function recordPublication(id: string, wordpress: WordPressPublication): Promise<HistoryEntry> {
+  const entry = await getHistoryEntry(id);
+  if (!entry) {
+    throw new Error("History entry not found.");
+  }
+  const updated = { ...entry, wordpress };
+  await writeJsonFile(entryFile(id), updated);
+  return updated;
+}
+
+export async function deleteHistoryEntry(id: string): Promise<boolean> {
+  return removeFile(entryFile(id));
+}
@@ -0,0 +1,164 @@
+import { nanoBananaProvider } from "@/server/imageGen/nanoBanana";
+import { openAIImagesProvider } from "@/server/imageGen/openai";
+import { stubImageProvider } from "@/server/imageGen/stub";
+import type { AspectRatio } from "@/server/images";
+import type { ProductData } from "@/server/scraper";
+
+export const imageProviderIds = ["nano-banana", "openai", "stub"] as const;
+
+export type ImageProviderId = (typeof imageProviderIds)[number];
+
+export const imageStatuses = ["generated", "placeholder", "failed"] as const;
+
+export type ImageStatus = (typeof imageStatuses)[number];
+
+export interface ImageOptions {
+  provider: ImageProviderId;
+  aspectRatio: AspectRatio;
+  seed?: number;
+  negativePrompt?: string;
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  style: string;
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  seed?: number;
+  negativePrompt?: string;
+  product: ProductData;
+}
+
+export interface ProviderImage {
+  url: string;
+  width?: number;
+  height?: number;
+  seed?: number;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  configured: () => boolean;
+  generate: (request: ImageGenerationRequest) => Promise<ProviderImage>;
+}
+
+export interface GeneratedImage {
+  url: string;
+  prompt: string;
+  status: ImageStatus;
+  provider: ImageProviderId;
+  aspectRatio: AspectRatio;
+  seed?: number;
+  negativePrompt?: string;
+  error?: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+}
+
+const providers: Record<ImageProviderId, ImageProvider> = {
+  "nano-banana": nanoBananaProvider,
+  openai: openAIImagesProvider,
+  stub: stubImageProvider
+};
+
+const frames: Record<AspectRatio, { width: number; height: number }> = {
+  "16:9": { width: 1600, height: 900 },
+  "4:3": { width: 1200, height: 900 },
+  "1:1": { width: 1200, height: 1200 }
+};
+
+const maxPrompts = 6;
+
+function defaultProviderId(): ImageProviderId {
+  const configured = process.env.IMAGE_PROVIDER as ImageProviderId | undefined;
+  return configured && imageProviderIds.includes(configured) ? configured : "nano-banana";
+}
+
+export function resolveImageOptions(overrides: Partial<ImageOptions> = {}): ImageOptions {
+  return {
+    provider: overrides.provider ?? defaultProviderId(),
+    aspectRatio: overrides.aspectRatio ?? "4:3",
+    seed: overrides.seed,
+    negativePrompt: overrides.negativePrompt || undefined
+  };
+}
+
+function placeholderUrl(index: number, status: "placeholder" | "failed", aspectRatio: AspectRatio): string {
+  const { width, height } = frames[aspectRatio];
+  const colors = status === "failed" ? "111827/64748b" : "0f172a/94a3b8";
+  const label = status === "failed" ? "Failed" : "Image";
+  return `https://placehold.co/${width}x${height}/${colors}.png?text=${label}+${index + 1}`;
+}
+
+export async function generateImage(input: {
+  prompt: string;
+  index: number;
+  product: ProductData;
+  style: string;
+  options: ImageOptions;
+}): Promise<GeneratedImage> {
+  const { options } = input;
+  const provider = providers[options.provider];
+  const frame = frames[options.aspectRatio];
+  const seed = options.seed === undefined ? undefined : options.seed + input.index;
+  const base = {
+    prompt: input.prompt,
+    provider: provider.id,
+    aspectRatio: options.aspectRatio,
+    seed,
+    negativePrompt: options.negativePrompt,
+    ...frame
+  };
+
+  if (!provider.configured()) {
+    return { ...base, status: "placeholder", url: placeholderUrl(input.index, "placeholder", options.aspectRatio) };
+  }
+
+  try {
+    const image = await provider.generate({
+      prompt: input.prompt,
+      style: input.style,
+      aspectRatio: options.aspectRatio,
+      seed,
+      negativePrompt: options.negativePrompt,
+      product: input.product,
+      ...frame
+    });
+    return {
+      ...base,
+      status: "generated",
+      url: image.url,
+      width: image.width ?? frame.width,
+      height: image.height ?? frame.height,
+      seed: image.seed ?? seed
+    };
+  } catch (error) {
+    console.error(`${provider.id} image generation failed:`, error);
+    return {
+      ...base,
+      status: "failed",
+      error: error instanceof Error ? error.message : "Image generation failed.",
+      url: placeholderUrl(input.index, "failed", options.aspectRatio)
+    };
+  }
+}
+
+export async function generateImages(input: {
+  prompts: string[];
+  product: ProductData;
+  style: string;
+  options: ImageOptions;
+}): Promise<GeneratedImage[]> {
+  const name = input.product.title ?? "Product";
+  const prompts =
+    input.prompts.length > 0
+      ? input.prompts.slice(0, maxPrompts)
+      : [`${name} hero shot, ${input.style}`, `${name} lifestyle photo, ${input.style}`];
+  return Promise.all(
+    prompts.map((prompt, index) =>
+      generateImage({ prompt, index, product: input.product, style: input.style, options: input.options })
+    )
+  );
+}
@@ -0,0 +1,39 @@
+import axios from "axios";
+import type { ImageProvider } from "@/server/imageGen";
+
+export const nanoBananaProvider: ImageProvider = {
+  id: "nano-banana",
+  configured: () => Boolean(process.env.NANO_BANANA_API_KEY),
+  generate: async (request) => {
+    const response = await axios.post(
+      process.env.NANO_BANANA_API_URL ?? "https://api.nanobanana.com/v1/images/generate",
+      {
+        prompts: [request.prompt],
+        aspect_ratio: request.aspectRatio,
+        width: request.width,
+        style: request.style,
+        count: 1,
+        seed: request.seed,
+        negative_prompt: request.negativePrompt,
+        metadata: {
+          product: request.product.title,
+          brand: request.product.brand,
+          source: request.product.sourceUrl
+        }
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${process.env.NANO_BANANA_API_KEY}`,
+          "Content-Type": "application/json"
+        },
+        timeout: 20000
+      }
+    );
+
+    const image = Array.isArray(response.data?.images) ? response.data.images[0] : undefined;
+    if (typeof image?.url !== "string") {
+      throw new Error("Nano Banana returned no image.");
+    }
+    return { url: image.url, width: image.width, height: image.height, seed: image.seed };
+  }
+};
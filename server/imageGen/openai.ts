@@ -0,0 +1,38 @@
+import OpenAI from "openai";
+import type { ImageProvider } from "@/server/imageGen";
+import type { AspectRatio } from "@/server/images";
+
+const sizes: Record<AspectRatio, "1792x1024" | "1024x1024"> = {
+  "16:9": "1792x1024",
+  "4:3": "1792x1024",
+  "1:1": "1024x1024"
+};
+
+export const openAIImagesProvider: ImageProvider = {
+  id: "openai",
+  configured: () => Boolean(process.env.OPENAI_API_KEY),
+  generate: async (request) => {
+    const model = process.env.IMAGE_MODEL ?? "dall-e-3";
+    const size = sizes[request.aspectRatio];
+    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const response = await client.images.generate({
+      model,
+      prompt: [
+        request.prompt,
+        `Style: ${request.style}.`,
+        request.negativePrompt ? `Avoid: ${request.negativePrompt}.` : ""
+      ]
+        .filter(Boolean)
+        .join(" "),
+      n: 1,
+      size,
+      response_format: "url"
+    });
+    const url = response.data?.[0]?.url;
+    if (!url) {
+      throw new Error(`${model} did not return an image URL.`);
+    }
+    const [width, height] = size.split("x").map(Number);
+    return { url, width, height };
+  }
+};
@@ -0,0 +1,26 @@
+import axios from "axios";
+import type { ImageProvider } from "@/server/imageGen";
+
+export const stubImageProvider: ImageProvider = {
+  id: "stub",
+  configured: () => Boolean(process.env.IMAGE_STUB_URL),
+  generate: async (request) => {
+    const baseUrl = (process.env.IMAGE_STUB_URL ?? "").replace(/\/$/, "");
+    const response = await axios.post(
+      `${baseUrl}/v1/images`,
+      {
+        prompt: request.prompt,
+        width: request.width,
+        height: request.height,
+        seed: request.seed,
+        negativePrompt: request.negativePrompt
+      },
+      { timeout: 10000 }
+    );
+    if (typeof response.data?.url !== "string") {
+      throw new Error("The image stub returned no image.");
+    }
+    const { url, width, height, seed } = response.data;
+    return { url, width, height, seed };
+  }
+};
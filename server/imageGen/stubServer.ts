@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import sharp from "sharp";
+
+export interface ImageStubServer {
+  url: string;
+  requests: Array<{ prompt: string; width: number; height: number; seed?: number; negativePrompt?: string }>;
+  close: () => Promise<void>;
+}
+
+const maxSide = 2048;
+const failMarker = "[stub:fail]";
+
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function promptSeed(prompt: string): number {
+  return crypto.createHash("sha256").update(prompt).digest().readUInt32BE(0);
+}
+
+async function renderImage(seed: number, width: number, height: number): Promise<Buffer> {
+  const next = random(seed);
+  const pixels = Buffer.alloc(16 * 12 * 3);
+  for (let index = 0; index < pixels.length; index += 1) {
+    pixels[index] = Math.floor(next() * 256);
+  }
+  return sharp(pixels, { raw: { width: 16, height: 12, channels: 3 } })
+    .resize(width, height, { fit: "fill" })
+    .png()
+    .toBuffer();
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const value: unknown = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+function side(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? Math.min(value, maxSide) : fallback;
+}
+
+export function startImageStubServer(port = 0): Promise<ImageStubServer> {
+  const requests: ImageStubServer["requests"] = [];
+  const server = http.createServer(async (req, res) => {
+    const origin = `http://${req.headers.host}`;
+    const url = new URL(req.url ?? "/", origin);
+    try {
+      if (req.method === "POST" && url.pathname === "/v1/images") {
+        const body = await readJson(req);
+        const prompt = typeof body.prompt === "string" ? body.prompt : "";
+        const width = side(body.width, 1200);
+        const height = side(body.height, 900);
+        const seed = typeof body.seed === "number" ? body.seed : undefined;
+        const negativePrompt = typeof body.negativePrompt === "string" ? body.negativePrompt : undefined;
+        requests.push({ prompt, width, height, seed, negativePrompt });
+        if (prompt.includes(failMarker)) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Stub failure requested." }));
+          return;
+        }
+        const imageSeed = (seed ?? promptSeed(prompt)) >>> 0;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        const imageUrl = `${origin}/images/${imageSeed}-${width}x${height}.png`;
+        res.end(JSON.stringify({ url: imageUrl, width, height, seed: imageSeed }));
+        return;
+      }
+      const match = /^\/images\/(\d+)-(\d+)x(\d+)\.png$/.exec(url.pathname);
+      if (req.method === "GET" && match) {
+        const image = await renderImage(Number(match[1]), side(Number(match[2]), 1200), side(Number(match[3]), 900));
+        res.writeHead(200, { "Content-Type": "image/png", "Content-Length": image.length });
+        res.end(image);
+        return;
+      }
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Not found." }));
+    } catch (error) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : "Bad request." }));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const { port: bound } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${bound}`,
+        requests,
+        close: () => new Promise((done, fail) => server.close((error) => (error ? fail(error) : done())))
+      });
+    });
+  });
+}
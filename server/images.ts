@@ -0,0 +1,319 @@
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { z } from "zod";
+import { completeDraftPart } from "@/server/draft";
+import { nonProductImage } from "@/server/extractors/utils";
+import { fetchFile } from "@/server/fetcher";
+import type { GeneratedImage } from "@/server/imageGen";
+import { getLlmProvider, type LlmSettings } from "@/server/llm";
+import type { ProductData } from "@/server/scraper";
+import { dataPath } from "@/server/storage";
+
+export const aspectRatios = ["16:9", "4:3", "1:1"] as const;
+
+export type AspectRatio = (typeof aspectRatios)[number];
+
+export type ImageFormat = "webp" | "avif";
+
+export interface ImageVariant {
+  aspectRatio: AspectRatio;
+  format: ImageFormat;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageCandidate {
+  url: string;
+  source: "product" | "generated";
+  prompt?: string;
+}
+
+export interface ProcessedImage {
+  id: string;
+  source: ImageCandidate["source"];
+  sourceUrl: string;
+  prompt?: string;
+  alt: string;
+  caption: string;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+}
+
+export interface ImageSet {
+  images: ProcessedImage[];
+  dropped: Array<{ url: string; reason: string }>;
+}
+
+interface LoadedImage {
+  candidate: ImageCandidate;
+  data: Buffer;
+  width: number;
+  height: number;
+  hash: string;
+}
+
+const crops: Record<AspectRatio, { width: number; height: number }> = {
+  "16:9": { width: 1200, height: 675 },
+  "4:3": { width: 1200, height: 900 },
+  "1:1": { width: 1200, height: 1200 }
+};
+
+const formats: ImageFormat[] = ["webp", "avif"];
+const imageTypes = ["image/jpeg", "image/png", "image/webp", "image/avif", "image/gif"];
+const placeholderHosts = new Set(["placehold.co", "via.placeholder.com"]);
+const minSourceSide = 400;
+const maxImages = 8;
+const duplicateDistance = 10;
+
+const imageTextSchema = z.object({
+  images: z.array(
+    z.object({
+      index: z.number().int().min(0),
+      alt: z.string().trim().min(1).max(200),
+      caption: z.string().trim().min(1).max(300)
+    })
+  )
+});
+
+export const imageSetSchema = z.object({
+  images: z.array(
+    z.object({
+      id: z.string(),
+      source: z.enum(["product", "generated"]),
+      sourceUrl: z.string().url(),
+      prompt: z.string().optional(),
+      alt: z.string(),
+      caption: z.string(),
+      width: z.number(),
+      height: z.number(),
+      variants: z.array(
+        z.object({
+          aspectRatio: z.enum(aspectRatios),
+          format: z.enum(["webp", "avif"]),
+          url: z.string().min(1),
+          width: z.number(),
+          height: z.number()
+        })
+      )
+    })
+  ),
+  dropped: z.array(z.object({ url: z.string(), reason: z.string() }))
+});
+
+const cosines = Array.from({ length: 8 }, (_, u) =>
+  Array.from({ length: 32 }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / 64))
+);
+
+export function imageUrl(file: string): string {
+  return `${(process.env.IMAGE_BASE_URL ?? "").replace(/\/$/, "")}/api/images/${file}`;
+}
+
+export function imageFile(file: string): string {
+  if (!/^[a-f0-9]{16}-(16x9|4x3|1x1)(-\d{1,4}x\d{1,4})?\.(webp|avif)$/.test(file)) {
+    throw new Error(`Invalid image file name "${file}".`);
+  }
+  return path.join(dataPath("images"), file);
+}
+
+export async function perceptualHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data).greyscale().resize(32, 32, { fit: "fill" }).raw().toBuffer();
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v += 1) {
+    for (let u = 0; u < 8; u += 1) {
+      let sum = 0;
+      for (let y = 0; y < 32; y += 1) {
+        for (let x = 0; x < 32; x += 1) {
+          sum += pixels[y * 32 + x] * cosines[u][x] * cosines[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+  const ac = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (ac[31] + ac[32]) / 2;
+  const bits = coefficients.map((value) => (value > median ? "1" : "0")).join("");
+  return BigInt(`0b${bits}`).toString(16).padStart(16, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let value = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (value > BigInt(0)) {
+    count += Number(value & BigInt(1));
+    value >>= BigInt(1);
+  }
+  return count;
+}
+
+async function loadCandidate(candidate: ImageCandidate): Promise<LoadedImage | { url: string; reason: string }> {
+  const { url } = candidate;
+  try {
+    if (placeholderHosts.has(new URL(url).hostname)) {
+      return { url, reason: "Placeholder image." };
+    }
+    if (nonProductImage.test(url)) {
+      return { url, reason: "Looks like a logo, icon, or tracking pixel." };
+    }
+    const file = await fetchFile(url, { accept: imageTypes, maxBytes: 15 * 1024 * 1024 });
+    const metadata = await sharp(file.data).metadata();
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const width = (rotated ? metadata.height : metadata.width) ?? 0;
+    const height = (rotated ? metadata.width : metadata.height) ?? 0;
+    if (Math.min(width, height) < minSourceSide) {
+      return { url, reason: `Too small (${width}x${height}).` };
+    }
+    return { candidate, data: file.data, width, height, hash: await perceptualHash(file.data) };
+  } catch (error) {
+    return { url, reason: error instanceof Error ? error.message : "Could not load the image." };
+  }
+}
+
+function cropSize(loaded: LoadedImage, aspectRatio: AspectRatio): { width: number; height: number } {
+  const crop = crops[aspectRatio];
+  const scale = Math.min(1, loaded.width / crop.width, loaded.height / crop.height);
+  return { width: Math.round(crop.width * scale), height: Math.round(crop.height * scale) };
+}
+
+async function writeVariant(loaded: LoadedImage, aspectRatio: AspectRatio, format: ImageFormat): Promise<ImageVariant> {
+  const { width, height } = cropSize(loaded, aspectRatio);
+  const file = `${loaded.hash}-${aspectRatio.replace(":", "x")}-${width}x${height}.${format}`;
+  const target = imageFile(file);
+  const exists = await fs.stat(target).then(
+    () => true,
+    () => false
+  );
+  if (!exists) {
+    const resized = sharp(loaded.data)
+      .rotate()
+      .resize(width, height, { fit: "cover", position: sharp.strategy.attention, withoutEnlargement: true });
+    const encoded =
+      format === "webp" ? resized.webp({ quality: 80 }) : resized.avif({ quality: 50, effort: 2 });
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temporary = `${target}.${process.pid}.tmp`;
+    await encoded.toFile(temporary);
+    await fs.rename(temporary, target);
+  }
+  return { aspectRatio, format, url: imageUrl(file), width, height };
+}
+
+async function writeImageText(input: {
+  images: LoadedImage[];
+  product: ProductData;
+  locale: string;
+  llm: LlmSettings;
+}): Promise<Map<number, { alt: string; caption: string }>> {
+  try {
+    const { value } = await completeDraftPart({
+      provider: getLlmProvider(input.llm.provider),
+      schema: imageTextSchema,
+      request: {
+        model: input.llm.model,
+        temperature: input.llm.temperature,
+        system:
+          "You write accessible alt text and captions for the images in a product review article. Return JSON {images: [{index, alt, caption}]} with one entry per image index, written in the target locale. Alt text is one plain sentence under 125 characters that describes what the image shows and names the product once; do not start with 'image of' or 'photo of'. Captions are one short sentence for readers. Product photos come from the seller; generated images are illustrative and their captions must say so. Never invent features that are not in the product data or the image prompt.",
+        user: JSON.stringify({
+          mode: "imageText",
+          locale: input.locale,
+          product: { title: input.product.title, brand: input.product.brand, highlights: input.product.highlights },
+          images: input.images.map((image, index) => ({
+            index,
+            source: image.candidate.source,
+            prompt: image.candidate.prompt
+          }))
+        })
+      }
+    });
+    return new Map(value.images.map((entry) => [entry.index, { alt: entry.alt, caption: entry.caption }]));
+  } catch (error) {
+    console.error("Failed to write image alt text", error);
+    return new Map();
+  }
+}
+
+export async function processImages(input: {
+  candidates: ImageCandidate[];
+  product: ProductData;
+  locale: string;
+  llm: LlmSettings;
+}): Promise<ImageSet> {
+  const dropped: ImageSet["dropped"] = [];
+  const unique = Array.from(new Map(input.candidates.map((candidate) => [candidate.url, candidate])).values());
+  const loaded = await Promise.all(unique.map(loadCandidate));
+
+  const kept: LoadedImage[] = [];
+  for (const entry of loaded) {
+    if (!("candidate" in entry)) {
+      dropped.push(entry);
+      continue;
+    }
+    const duplicateIndex = kept.findIndex((image) => hammingDistance(image.hash, entry.hash) <= duplicateDistance);
+    if (duplicateIndex === -1) {
+      kept.push(entry);
+      continue;
+    }
+    const existing = kept[duplicateIndex];
+    const [winner, loser] =
+      entry.width * entry.height > existing.width * existing.height ? [entry, existing] : [existing, entry];
+    kept[duplicateIndex] = winner;
+    dropped.push({ url: loser.candidate.url, reason: `Duplicate of ${winner.candidate.url}.` });
+  }
+  kept.splice(maxImages).forEach((image) => dropped.push({ url: image.candidate.url, reason: "Image limit reached." }));
+
+  const texts = await writeImageText({ images: kept, product: input.product, locale: input.locale, llm: input.llm });
+  const images: ProcessedImage[] = [];
+  for (const [index, image] of kept.entries()) {
+    const variants: ImageVariant[] = [];
+    for (const aspectRatio of Object.keys(crops) as AspectRatio[]) {
+      for (const format of formats) {
+        variants.push(await writeVariant(image, aspectRatio, format));
+      }
+    }
+    const text = texts.get(index);
+    images.push({
+      id: image.hash,
+      source: image.candidate.source,
+      sourceUrl: image.candidate.url,
+      prompt: image.candidate.prompt,
+      alt: text?.alt ?? input.product.title ?? image.candidate.prompt ?? "",
+      caption: text?.caption ?? "",
+      width: image.width,
+      height: image.height,
+      variants
+    });
+  }
+
+  return { images, dropped };
+}
+
+export function imageCandidates(
+  product: ProductData,
+  generated: Array<Pick<GeneratedImage, "url" | "prompt" | "status">>
+): ImageCandidate[] {
+  return [
+    ...(product.images ?? []).map((url) => ({ url, source: "product" as const })),
+    ...generated
+      .filter((image) => image.status === "generated")
+      .map((image) => ({ url: image.url, source: "generated" as const, prompt: image.prompt }))
+  ];
+}
+
+export function schemaImages(set: ImageSet): {
+  article: Array<{ url: string; width: number; height: number }>;
+  product: string[];
+} {
+  const published = (variant: ImageVariant) => variant.format === "webp" && /^https?:\/\//.test(variant.url);
+  return {
+    article: set.images
+      .flatMap((image, index) =>
+        image.variants.filter((variant) => published(variant) && (index === 0 || variant.aspectRatio === "16:9"))
+      )
+      .map(({ url, width, height }) => ({ url, width, height })),
+    product: set.images
+      .filter((image) => image.source === "product")
+      .flatMap((image) => image.variants.filter((variant) => published(variant) && variant.aspectRatio === "1:1"))
+      .map((variant) => variant.url)
+  };
+}
@@ -0,0 +1,577 @@
+import type { Article, ArticleBlock } from "@/utils/article";
+
+export interface FixtureContext {
+  name: string;
+  brand?: string;
+  keywords: string[];
+  highlights: string[];
+  specifications: Array<{ label: string; value: string }>;
+}
+
+export interface DraftFixture {
+  article: Article;
+  seo: {
+    title: string;
+    metaDescription: string;
+    keywords: string[];
+    ogTitle: string;
+    ogDescription: string;
+  };
+  reviews: Array<{ reviewer: string; rating: number; summary: string; details: string }>;
+  imagePrompts: string[];
+}
+
+function specBlocks(context: FixtureContext): ArticleBlock[] {
+  return context.specifications.length > 0 ? [{ type: "specTable", rows: context.specifications }] : [];
+}
+
+function highlightBlocks(context: FixtureContext, fallback: string[]): ArticleBlock[] {
+  return [{ type: "list", ordered: false, items: context.highlights.length > 0 ? context.highlights : fallback }];
+}
+
+function imagePrompts(context: FixtureContext): string[] {
+  return [
+    `${context.name} hero shot on a clean studio backdrop`,
+    `${context.name} in everyday use, natural window light`
+  ];
+}
+
+function english(context: FixtureContext): DraftFixture {
+  const { name } = context;
+  const keywords = context.keywords.length > 0 ? context.keywords : [`${name} review`, `is ${name} worth it`];
+  return {
+    article: {
+      headline: `${name} review: what a week of daily use revealed`,
+      sections: [
+        {
+          kind: "intro",
+          heading: `Is the ${name} worth it?`,
+          blocks: [
+            {
+              type: "paragraph",
+              text: `We spent a week with the ${name}${context.brand ? ` from ${context.brand}` : ""} to see how it holds up outside the spec sheet. Here is what stood out, what could be better, and who should consider it.`
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "body",
+          heading: "Key features",
+          blocks: [
+            ...highlightBlocks(context, ["Straightforward setup", "Solid build quality", "Consistent everyday performance"]),
+            ...specBlocks(context)
+          ],
+          subsections: [
+            {
+              heading: "Everyday experience",
+              blocks: [
+                {
+                  type: "paragraph",
+                  text: "In daily use it behaved predictably. The controls are easy to learn, and we did not need the manual after the first day."
+                }
+              ]
+            }
+          ]
+        },
+        {
+          kind: "body",
+          heading: "Pros and cons",
+          blocks: [
+            {
+              type: "prosCons",
+              prosLabel: "Pros",
+              consLabel: "Cons",
+              pros: ["Easy to get started", "Good value for the feature set"],
+              cons: ["Limited color options", "Accessories are sold separately"]
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "verdict",
+          heading: "Verdict",
+          blocks: [
+            {
+              type: "paragraph",
+              text: `The ${name} is a sensible pick for buyers who want dependable results without a steep learning curve. Check the current price and shipping options before you decide.`
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "faq",
+          heading: "Frequently asked questions",
+          blocks: [
+            {
+              type: "faq",
+              items: [
+                {
+                  question: `Who is the ${name} for?`,
+                  answer: "It suits first-time buyers and anyone replacing an older model who values simplicity."
+                },
+                {
+                  question: "Does it come with a warranty?",
+                  answer: "Warranty terms depend on the seller, so confirm them on the product page before buying."
+                }
+              ]
+            }
+          ],
+          subsections: []
+        }
+      ]
+    },
+    seo: {
+      title: `${name} review: pros, cons and verdict`,
+      metaDescription: `Our hands-on ${name} review covers key features, everyday use, pros and cons, and who should buy it.`,
+      keywords,
+      ogTitle: `${name} review`,
+      ogDescription: `What a week with the ${name} taught us about its strengths and trade-offs.`
+    },
+    reviews: [
+      {
+        reviewer: "Jordan M.",
+        rating: 4,
+        summary: "Does the job with no fuss",
+        details: "Setup took a few minutes and it has worked reliably since. I would like more color choices."
+      },
+      {
+        reviewer: "Priya S.",
+        rating: 5,
+        summary: "Good value",
+        details: "It covers everything I need for daily use, and the build feels solid for the price."
+      }
+    ],
+    imagePrompts: imagePrompts(context)
+  };
+}
+
+function portuguese(context: FixtureContext): DraftFixture {
+  const { name } = context;
+  const keywords = context.keywords.length > 0 ? context.keywords : [`${name} review`, `${name} vale a pena`];
+  return {
+    article: {
+      headline: `Review ${name}: o que uma semana de uso mostrou`,
+      sections: [
+        {
+          kind: "intro",
+          heading: `O ${name} vale a pena?`,
+          blocks: [
+            {
+              type: "paragraph",
+              text: `Usamos o ${name}${context.brand ? ` da ${context.brand}` : ""} por uma semana para ver como ele se comporta além da ficha técnica. Veja o que se destacou, o que pode melhorar e para quem ele faz sentido.`
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "body",
+          heading: "Principais recursos",
+          blocks: [
+            ...highlightBlocks(context, ["Configuração simples", "Boa qualidade de construção", "Desempenho consistente"]),
+            ...specBlocks(context)
+          ],
+          subsections: [
+            {
+              heading: "Uso no dia a dia",
+              blocks: [
+                {
+                  type: "paragraph",
+                  text: "No uso diário ele se comportou de forma previsível. Os controles são fáceis de aprender e não precisamos do manual depois do primeiro dia."
+                }
+              ]
+            }
+          ]
+        },
+        {
+          kind: "body",
+          heading: "Prós e contras",
+          blocks: [
+            {
+              type: "prosCons",
+              prosLabel: "Prós",
+              consLabel: "Contras",
+              pros: ["Fácil de começar a usar", "Bom custo-benefício pelos recursos"],
+              cons: ["Poucas opções de cor", "Acessórios vendidos separadamente"]
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "verdict",
+          heading: "Veredito",
+          blocks: [
+            {
+              type: "paragraph",
+              text: `O ${name} é uma escolha sensata para quem quer resultados confiáveis sem curva de aprendizado. Confira o preço atual e as opções de frete antes de decidir.`
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "faq",
+          heading: "Perguntas frequentes",
+          blocks: [
+            {
+              type: "faq",
+              items: [
+                {
+                  question: `Para quem o ${name} é indicado?`,
+                  answer: "Para quem está comprando pela primeira vez ou trocando um modelo antigo e valoriza praticidade."
+                },
+                {
+                  question: "Ele tem garantia?",
+                  answer: "As condições de garantia dependem do vendedor, então confirme na página do produto antes de comprar."
+                }
+              ]
+            }
+          ],
+          subsections: []
+        }
+      ]
+    },
+    seo: {
+      title: `Review ${name}: prós, contras e veredito`,
+      metaDescription: `Nossa análise prática do ${name} cobre recursos, uso no dia a dia, prós e contras e para quem ele é indicado.`,
+      keywords,
+      ogTitle: `Review ${name}`,
+      ogDescription: `O que uma semana com o ${name} nos ensinou sobre seus pontos fortes e limitações.`
+    },
+    reviews: [
+      {
+        reviewer: "Mariana C.",
+        rating: 4,
+        summary: "Cumpre o que promete",
+        details: "A configuração levou poucos minutos e funciona bem desde então. Gostaria de mais opções de cor."
+      },
+      {
+        reviewer: "Rafael T.",
+        rating: 5,
+        summary: "Bom custo-benefício",
+        details: "Atende tudo o que preciso no dia a dia e o acabamento é firme para a faixa de preço."
+      }
+    ],
+    imagePrompts: imagePrompts(context)
+  };
+}
+
+function spanish(context: FixtureContext): DraftFixture {
+  const { name } = context;
+  const keywords = context.keywords.length > 0 ? context.keywords : [`${name} reseña`, `${name} vale la pena`];
+  return {
+    article: {
+      headline: `Reseña del ${name}: lo que mostró una semana de uso`,
+      sections: [
+        {
+          kind: "intro",
+          heading: `¿Vale la pena el ${name}?`,
+          blocks: [
+            {
+              type: "paragraph",
+              text: `Usamos el ${name}${context.brand ? ` de ${context.brand}` : ""} durante una semana para ver cómo rinde más allá de la ficha técnica. Esto es lo que destacó, lo que podría mejorar y para quién tiene sentido.`
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "body",
+          heading: "Características principales",
+          blocks: [
+            ...highlightBlocks(context, ["Configuración sencilla", "Buena calidad de construcción", "Rendimiento constante"]),
+            ...specBlocks(context)
+          ],
+          subsections: [
+            {
+              heading: "Uso diario",
+              blocks: [
+                {
+                  type: "paragraph",
+                  text: "En el uso diario se comportó de forma predecible. Los controles son fáciles de aprender y no necesitamos el manual después del primer día."
+                }
+              ]
+            }
+          ]
+        },
+        {
+          kind: "body",
+          heading: "Pros y contras",
+          blocks: [
+            {
+              type: "prosCons",
+              prosLabel: "Pros",
+              consLabel: "Contras",
+              pros: ["Fácil de empezar a usar", "Buena relación calidad-precio"],
+              cons: ["Pocas opciones de color", "Los accesorios se venden por separado"]
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "verdict",
+          heading: "Veredicto",
+          blocks: [
+            {
+              type: "paragraph",
+              text: `El ${name} es una opción sensata para quien busca resultados fiables sin curva de aprendizaje. Revisa el precio actual y las opciones de envío antes de decidir.`
+            }
+          ],
+          subsections: []
+        },
+        {
+          kind: "faq",
+          heading: "Preguntas frecuentes",
+          blocks: [
+            {
+              type: "faq",
+              items: [
+                {
+                  question: `¿Para quién es el ${name}?`,
+                  answer: "Para quien compra por primera vez o reemplaza un modelo anterior y valora la sencillez."
+                },
+                {
+                  question: "¿Tiene garantía?",
+                  answer: "Las condiciones de garantía dependen del vendedor, así que confírmalas en la página del producto."
+                }
+              ]
+            }
+          ],
+          subsections: []
+        }
+      ]
+    },
+    seo: {
+      title: `Reseña del ${name}: pros, contras y veredicto`,
+      metaDescription: `Nuestra reseña práctica del ${name} cubre características, uso diario, pros y contras y para quién es.`,
+      keywords,
+      ogTitle: `Reseña del ${name}`,
+      ogDescription: `Lo que una semana con el ${name} nos enseñó sobre sus fortalezas y limitaciones.`
+    },
+    reviews: [
+      {
+        reviewer: "Lucía G.",
+        rating: 4,
+        summary: "Cumple lo que promete",
+        details: "La configuración tomó pocos minutos y ha funcionado bien desde entonces. Me gustarían más colores."
+      },
+      {
+        reviewer: "Diego R.",
+        rating: 5,
+        summary: "Buena relación calidad-precio",
+        details: "Cubre todo lo que necesito a diario y los acabados se sienten firmes para su precio."
+      }
+    ],
+    imagePrompts: imagePrompts(context)
+  };
+}
+
+export const draftFixtures: Record<string, (context: FixtureContext) => DraftFixture> = {
+  en: english,
+  pt: portuguese,
+  es: spanish
+};
+
+export interface ComparisonFixtureContext {
+  products: Array<{ name: string; highlights: string[] }>;
+  keywords: string[];
+}
+
+export interface ComparisonFixture {
+  headline: string;
+  introHeading: string;
+  intro: string[];
+  tableHeading: string;
+  products: Array<{
+    index: number;
+    heading: string;
+    bestFor: string;
+    summary: string;
+    pros: string[];
+    cons: string[];
+    verdict: string;
+    rating: number;
+  }>;
+  verdict: { heading: string; text: string };
+  faq: Array<{ question: string; answer: string }>;
+  labels: { bestFor: string; pros: string; cons: string; faq: string };
+  seo: DraftFixture["seo"];
+  imagePrompts: string[];
+}
+
+interface ComparisonPhrases {
+  headline: (names: string) => string;
+  introHeading: string;
+  intro: (count: number) => string[];
+  tableHeading: string;
+  bestFor: string[];
+  summary: (name: string) => string;
+  pros: string[];
+  cons: string[];
+  verdict: (name: string, bestFor: string) => string;
+  finalHeading: string;
+  finalText: (name: string) => string;
+  faq: Array<{ question: string; answer: string }>;
+  labels: ComparisonFixture["labels"];
+  metaDescription: (names: string) => string;
+  imagePrompt: (names: string) => string;
+}
+
+const comparisonPhrases: Record<string, ComparisonPhrases> = {
+  en: {
+    headline: (names) => `${names}: which one should you buy?`,
+    introHeading: "How we compared them",
+    intro: (count) => [
+      `We compared ${count} popular options side by side, from the spec sheet to everyday use.`,
+      "Below you will find a comparison table, a short verdict for each product, and who each one suits best."
+    ],
+    tableHeading: "Comparison at a glance",
+    bestFor: ["everyday use", "tight budgets", "power users", "travel", "beginners"],
+    summary: (name) => `The ${name} balances features and price well, with a few trade-offs worth knowing.`,
+    pros: ["Solid build quality", "Straightforward setup"],
+    cons: ["Limited color options"],
+    verdict: (name, bestFor) => `Pick the ${name} if you are shopping for ${bestFor}.`,
+    finalHeading: "Final verdict",
+    finalText: (name) => `There is no single winner for everyone, but the ${name} is the safest all-round choice.`,
+    faq: [
+      {
+        question: "Which product is the best value?",
+        answer: "It depends on your priorities; check the best-for labels and compare current prices."
+      }
+    ],
+    labels: { bestFor: "Best for", pros: "Pros", cons: "Cons", faq: "Frequently asked questions" },
+    metaDescription: (names) => `We compare ${names} side by side: specs, pros and cons, and who each one is best for.`,
+    imagePrompt: (names) => `${names} side by side on a clean studio backdrop`
+  },
+  pt: {
+    headline: (names) => `${names}: qual vale mais a pena comprar?`,
+    introHeading: "Como comparamos",
+    intro: (count) => [
+      `Comparamos ${count} opções populares lado a lado, da ficha técnica ao uso no dia a dia.`,
+      "Abaixo você encontra uma tabela comparativa, um veredito curto para cada produto e para quem cada um é indicado."
+    ],
+    tableHeading: "Comparação rápida",
+    bestFor: ["uso diário", "orçamento apertado", "usuários exigentes", "viagens", "iniciantes"],
+    summary: (name) => `O ${name} equilibra bem recursos e preço, com algumas concessões que vale conhecer.`,
+    pros: ["Boa qualidade de construção", "Configuração simples"],
+    cons: ["Poucas opções de cor"],
+    verdict: (name, bestFor) => `Escolha o ${name} se você procura algo para ${bestFor}.`,
+    finalHeading: "Veredito final",
+    finalText: (name) => `Não existe um vencedor para todos, mas o ${name} é a escolha mais segura no geral.`,
+    faq: [
+      {
+        question: "Qual produto tem o melhor custo-benefício?",
+        answer: "Depende das suas prioridades; confira as indicações de cada produto e compare os preços atuais."
+      }
+    ],
+    labels: { bestFor: "Indicado para", pros: "Prós", cons: "Contras", faq: "Perguntas frequentes" },
+    metaDescription: (names) => `Comparamos ${names} lado a lado: ficha técnica, prós e contras e para quem cada um é indicado.`,
+    imagePrompt: (names) => `${names} lado a lado em fundo de estúdio limpo`
+  },
+  es: {
+    headline: (names) => `${names}: ¿cuál conviene comprar?`,
+    introHeading: "Cómo los comparamos",
+    intro: (count) => [
+      `Comparamos ${count} opciones populares lado a lado, desde la ficha técnica hasta el uso diario.`,
+      "A continuación encontrarás una tabla comparativa, un veredicto breve de cada producto y para quién es cada uno."
+    ],
+    tableHeading: "Comparación rápida",
+    bestFor: ["uso diario", "presupuestos ajustados", "usuarios exigentes", "viajes", "principiantes"],
+    summary: (name) => `El ${name} equilibra bien funciones y precio, con algunas concesiones que conviene conocer.`,
+    pros: ["Buena calidad de construcción", "Configuración sencilla"],
+    cons: ["Pocas opciones de color"],
+    verdict: (name, bestFor) => `Elige el ${name} si buscas algo para ${bestFor}.`,
+    finalHeading: "Veredicto final",
+    finalText: (name) => `No hay un ganador para todos, pero el ${name} es la opción más segura en general.`,
+    faq: [
+      {
+        question: "¿Qué producto ofrece la mejor relación calidad-precio?",
+        answer: "Depende de tus prioridades; revisa para quién es cada producto y compara los precios actuales."
+      }
+    ],
+    labels: { bestFor: "Ideal para", pros: "Pros", cons: "Contras", faq: "Preguntas frecuentes" },
+    metaDescription: (names) => `Comparamos ${names} lado a lado: ficha técnica, pros y contras y para quién es cada uno.`,
+    imagePrompt: (names) => `${names} lado a lado sobre un fondo de estudio limpio`
+  }
+};
+
+export function comparisonFixture(language: string, context: ComparisonFixtureContext): ComparisonFixture {
+  const phrases = comparisonPhrases[language] ?? comparisonPhrases.en;
+  const names = context.products.map((product) => product.name).join(" vs ");
+  const title = phrases.headline(names);
+  return {
+    headline: title,
+    introHeading: phrases.introHeading,
+    intro: phrases.intro(context.products.length),
+    tableHeading: phrases.tableHeading,
+    products: context.products.map((product, index) => {
+      const bestFor = phrases.bestFor[index % phrases.bestFor.length];
+      return {
+        index,
+        heading: product.name,
+        bestFor,
+        summary: phrases.summary(product.name),
+        pros: product.highlights.length > 0 ? product.highlights.slice(0, 3) : phrases.pros,
+        cons: phrases.cons,
+        verdict: phrases.verdict(product.name, bestFor),
+        rating: Math.max(3, 5 - index * 0.5)
+      };
+    }),
+    verdict: { heading: phrases.finalHeading, text: phrases.finalText(context.products[0]?.name ?? "") },
+    faq: phrases.faq,
+    labels: phrases.labels,
+    seo: {
+      title,
+      metaDescription: phrases.metaDescription(names),
+      keywords: context.keywords.length > 0 ? context.keywords : [`${names}`],
+      ogTitle: title,
+      ogDescription: phrases.metaDescription(names)
+    },
+    imagePrompts: [phrases.imagePrompt(names)]
+  };
+}
+
+export interface ImageTextFixtureContext {
+  name: string;
+  images: Array<{ index: number; source: "product" | "generated"; prompt?: string }>;
+}
+
+interface ImageTextPhrases {
+  productAlt: (name: string, position: number) => string;
+  productCaption: (name: string) => string;
+  generatedAlt: (name: string) => string;
+  generatedCaption: string;
+}
+
+const imageTextPhrases: Record<string, ImageTextPhrases> = {
+  en: {
+    productAlt: (name, position) => `${name}, product photo ${position}`,
+    productCaption: (name) => `The ${name} as pictured by the seller.`,
+    generatedAlt: (name) => `${name} shown in a styled scene`,
+    generatedCaption: "Illustrative image created for this review."
+  },
+  pt: {
+    productAlt: (name, position) => `${name}, foto do produto ${position}`,
+    productCaption: (name) => `${name} nas fotos divulgadas pelo vendedor.`,
+    generatedAlt: (name) => `${name} em uma cena ilustrativa`,
+    generatedCaption: "Imagem ilustrativa criada para esta análise."
+  },
+  es: {
+    productAlt: (name, position) => `${name}, foto del producto ${position}`,
+    productCaption: (name) => `${name} en las fotos publicadas por el vendedor.`,
+    generatedAlt: (name) => `${name} en una escena ilustrativa`,
+    generatedCaption: "Imagen ilustrativa creada para esta reseña."
+  }
+};
+
+export function imageTextFixture(
+  language: string,
+  context: ImageTextFixtureContext
+): { images: Array<{ index: number; alt: string; caption: string }> } {
+  const phrases = imageTextPhrases[language] ?? imageTextPhrases.en;
+  return {
+    images: context.images.map((image, position) => ({
+      index: image.index,
+      alt:
+        image.source === "product" ? phrases.productAlt(context.name, position + 1) : phrases.generatedAlt(context.name),
+      caption: image.source === "product" ? phrases.productCaption(context.name) : phrases.generatedCaption
+    }))
+  };
+}
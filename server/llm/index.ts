@@ -0,0 +1,67 @@
+import { mockProvider } from "@/server/llm/mock";
+import { openAICompatibleProvider, openAIProvider } from "@/server/llm/openai";
+
+export const llmProviderIds = ["openai", "openai-compatible", "mock"] as const;
+
+export type LlmProviderId = (typeof llmProviderIds)[number];
+
+export interface LlmRequest {
+  system: string;
+  user: string;
+  model: string;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  defaultModel?: string;
+  complete: (request: LlmRequest, onToken?: (token: string) => void) => Promise<string>;
+}
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  temperature: number;
+}
+
+const providers: Record<LlmProviderId, LlmProvider> = {
+  openai: openAIProvider,
+  "openai-compatible": openAICompatibleProvider,
+  mock: mockProvider
+};
+
+function defaultProviderId(): LlmProviderId | undefined {
+  const configured = process.env.LLM_PROVIDER as LlmProviderId | undefined;
+  if (configured) {
+    if (!llmProviderIds.includes(configured)) {
+      throw new Error(`LLM_PROVIDER must be one of ${llmProviderIds.join(", ")}; got "${configured}".`);
+    }
+    return configured;
+  }
+  if (process.env.OPENAI_API_KEY) return "openai";
+  if (process.env.LLM_BASE_URL) return "openai-compatible";
+  return undefined;
+}
+
+export function resolveLlmSettings(overrides: Partial<LlmSettings> = {}): LlmSettings {
+  const configured = defaultProviderId();
+  const provider = overrides.provider ?? configured;
+  if (!provider) {
+    throw new Error(
+      "No LLM provider is configured. Set OPENAI_API_KEY or LLM_BASE_URL, or LLM_PROVIDER=mock for offline fixtures."
+    );
+  }
+  const envModel = provider === configured ? process.env.LLM_MODEL : undefined;
+  const model = overrides.model ?? envModel ?? providers[provider].defaultModel;
+  if (!model) {
+    throw new Error(`Set LLM_MODEL or pass a model to use the ${provider} provider.`);
+  }
+  const envTemperature = Number.parseFloat(process.env.LLM_TEMPERATURE ?? "");
+  const temperature = overrides.temperature ?? (Number.isFinite(envTemperature) ? envTemperature : 0.5);
+  return { provider, model, temperature };
+}
+
+export function getLlmProvider(id: LlmProviderId): LlmProvider {
+  return providers[id];
+}
@@ -0,0 +1,87 @@
+import type { LlmProvider } from "@/server/llm";
+import { comparisonFixture, draftFixtures, imageTextFixture, type DraftFixture } from "@/server/llm/fixtures";
+import type { ProductData } from "@/server/scraper";
+
+interface DraftInput {
+  locale?: string;
+  targetKeywords?: string;
+  product?: Partial<ProductData>;
+  mode?: "comparison" | "imageText";
+  products?: Array<{ title?: string; highlights?: string[] }>;
+  images?: Array<{ index: number; source: "product" | "generated"; prompt?: string }>;
+  regenerate?: { type: "section" | "seo" | "reviews" | "images" | "image"; index?: number };
+}
+
+function keywordsOf(input: DraftInput): string[] {
+  return (input.targetKeywords ?? "")
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+function regeneratedPart(fixture: DraftFixture, target: NonNullable<DraftInput["regenerate"]>): unknown {
+  switch (target.type) {
+    case "section": {
+      const sections = fixture.article.sections;
+      return { section: sections[(target.index ?? 0) % sections.length] };
+    }
+    case "seo":
+      return { seo: fixture.seo };
+    case "reviews":
+      return { reviews: fixture.reviews };
+    case "images":
+      return { imagePrompts: fixture.imagePrompts };
+    case "image":
+      return { prompt: fixture.imagePrompts[(target.index ?? 0) % fixture.imagePrompts.length] };
+  }
+}
+
+function parseInput(user: string): DraftInput {
+  try {
+    return JSON.parse(user) as DraftInput;
+  } catch {
+    return {};
+  }
+}
+
+function fixtureResponse(input: DraftInput): unknown {
+  const language = (input.locale ?? "en").toLowerCase().split("-")[0];
+  if (input.mode === "comparison") {
+    return comparisonFixture(language, {
+      products: (input.products ?? []).map((entry, index) => ({
+        name: entry.title ?? `Product ${index + 1}`,
+        highlights: entry.highlights ?? []
+      })),
+      keywords: keywordsOf(input)
+    });
+  }
+
+  const product = input.product ?? {};
+  if (input.mode === "imageText") {
+    return imageTextFixture(language, { name: product.title ?? "product", images: input.images ?? [] });
+  }
+
+  const fixture = draftFixtures[language] ?? draftFixtures.en;
+  const draft = fixture({
+    name: product.title ?? "product",
+    brand: product.brand,
+    keywords: keywordsOf(input),
+    highlights: (product.highlights ?? []).slice(0, 5),
+    specifications: Object.entries(product.specifications ?? {})
+      .slice(0, 6)
+      .map(([label, value]) => ({ label, value }))
+  });
+  return input.regenerate ? regeneratedPart(draft, input.regenerate) : draft;
+}
+
+export const mockProvider: LlmProvider = {
+  id: "mock",
+  defaultModel: "fixture-v1",
+  complete: async (request, onToken) => {
+    const content = JSON.stringify(fixtureResponse(parseInput(request.user)));
+    if (onToken) {
+      content.match(/[\s\S]{1,80}/g)?.forEach((token) => onToken(token));
+    }
+    return content;
+  }
+};
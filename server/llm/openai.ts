@@ -0,0 +1,61 @@
+import OpenAI from "openai";
+import type { LlmProvider, LlmRequest } from "@/server/llm";
+
+async function chatCompletion(
+  client: OpenAI,
+  request: LlmRequest,
+  onToken?: (token: string) => void
+): Promise<string> {
+  const params = {
+    model: request.model,
+    temperature: request.temperature,
+    response_format: { type: "json_object" as const },
+    messages: [
+      { role: "system" as const, content: request.system },
+      { role: "user" as const, content: request.user }
+    ]
+  };
+
+  let content = "";
+  if (onToken) {
+    const stream = await client.chat.completions.create({ ...params, stream: true }, { signal: request.signal });
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content ?? "";
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+    }
+  } else {
+    const response = await client.chat.completions.create(params, { signal: request.signal });
+    content = response.choices[0]?.message?.content ?? "";
+  }
+
+  if (!content) {
+    throw new Error(`${request.model} did not return any content.`);
+  }
+  return content;
+}
+
+export const openAIProvider: LlmProvider = {
+  id: "openai",
+  defaultModel: "gpt-4o-mini",
+  complete: async (request, onToken) => {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is not configured.");
+    }
+    return chatCompletion(new OpenAI({ apiKey }), request, onToken);
+  }
+};
+
+export const openAICompatibleProvider: LlmProvider = {
+  id: "openai-compatible",
+  complete: async (request, onToken) => {
+    const baseURL = process.env.LLM_BASE_URL;
+    if (!baseURL) {
+      throw new Error("LLM_BASE_URL environment variable is not configured.");
+    }
+    return chatCompletion(new OpenAI({ baseURL, apiKey: process.env.LLM_API_KEY ?? "not-needed" }), request, onToken);
+  }
+};
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import {
+  generateFromProduct,
+  recordHistory,
+  requestSchema,
+  type GenerateBody,
+  type GenerationOutcome,
+  type GenerationResult
+} from "@/server/generation";
+import { scrapeProductData, type ExtractionReport, type ProductData } from "@/server/scraper";
+import { escapeHtml } from "@/utils/article";
+import { localeSchema } from "@/utils/locale";
+
+export const multiLocaleRequestSchema = requestSchema
+  .omit({ targetLocale: true, articleUrl: true })
+  .extend({
+    variants: z
+      .array(
+        z.object({
+          locale: localeSchema,
+          articleUrl: z.string().url().optional(),
+          targetKeywords: z.string().optional()
+        })
+      )
+      .min(2)
+      .max(6)
+  })
+  .superRefine((body, ctx) => {
+    const locales = body.variants.map((variant) => variant.locale.toLowerCase());
+    const urls = body.variants.flatMap((variant) => (variant.articleUrl ? [variant.articleUrl] : []));
+    if (new Set(locales).size !== locales.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["variants"],
+        message: "Each locale can only be listed once."
+      });
+    }
+    if (new Set(urls).size !== urls.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["variants"],
+        message: "Each locale needs its own article URL."
+      });
+    }
+  });
+
+export type MultiLocaleBody = z.infer<typeof multiLocaleRequestSchema>;
+
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface LocaleVariant {
+  locale: string;
+  result: GenerationResult;
+  headTags: string;
+}
+
+export interface MultiLocaleResult {
+  product: ProductData;
+  extraction: ExtractionReport;
+  variants: LocaleVariant[];
+  alternates: HreflangAlternate[];
+  warnings: string[];
+}
+
+export type MultiLocaleOutcome =
+  | { status: 200; body: MultiLocaleResult }
+  | { status: 422; body: Extract<GenerationOutcome, { status: 422 }>["body"] & { locale: string } };
+
+export function buildHreflangAlternates(variants: Array<{ locale: string; url?: string }>): {
+  alternates: HreflangAlternate[];
+  warnings: string[];
+} {
+  const warnings: string[] = [];
+  const alternates = variants.flatMap(({ locale, url }) => {
+    if (!url) {
+      warnings.push(`${locale} has no article URL, so it was left out of the hreflang alternates.`);
+      return [];
+    }
+    return [{ hreflang: locale, href: url }];
+  });
+  if (alternates.length > 0) {
+    alternates.push({ hreflang: "x-default", href: alternates[0].href });
+  }
+  return { alternates, warnings };
+}
+
+export function renderHeadTags(canonicalUrl: string | undefined, alternates: HreflangAlternate[]): string {
+  return [
+    ...(canonicalUrl ? [`<link rel="canonical" href="${escapeHtml(canonicalUrl)}" />`] : []),
+    ...alternates.map(
+      (alternate) =>
+        `<link rel="alternate" hreflang="${escapeHtml(alternate.hreflang)}" href="${escapeHtml(alternate.href)}" />`
+    )
+  ].join("\n");
+}
+
+export async function runMultiLocaleGeneration(body: MultiLocaleBody): Promise<MultiLocaleOutcome> {
+  const { variants, ...brief } = body;
+  const scraped = await scrapeProductData(body.productUrl);
+  const requests: GenerateBody[] = variants.map((variant) => ({
+    ...brief,
+    targetLocale: variant.locale,
+    articleUrl: variant.articleUrl,
+    targetKeywords: variant.targetKeywords ?? brief.targetKeywords
+  }));
+  const outcomes = await Promise.all(requests.map((request) => generateFromProduct(request, scraped)));
+
+  const failedIndex = outcomes.findIndex((outcome) => outcome.status === 422);
+  const failed = outcomes[failedIndex];
+  if (failed && failed.status === 422) {
+    return { status: 422, body: { ...failed.body, locale: requests[failedIndex].targetLocale } };
+  }
+
+  const results = outcomes.flatMap((outcome) => (outcome.status === 200 ? [outcome.body] : []));
+  results.forEach((result, index) => {
+    result.seo = { ...result.seo, canonicalUrl: requests[index].articleUrl };
+  });
+  const { alternates, warnings } = buildHreflangAlternates(
+    results.map((result, index) => ({ locale: requests[index].targetLocale, url: result.seo.canonicalUrl }))
+  );
+  for (const [index, result] of results.entries()) {
+    await recordHistory(requests[index], result);
+  }
+
+  return {
+    status: 200,
+    body: {
+      ...scraped,
+      variants: results.map((result, index) => {
+        const listed = alternates.some((alternate) => alternate.href === result.seo.canonicalUrl);
+        return {
+          locale: requests[index].targetLocale,
+          result,
+          headTags: renderHeadTags(result.seo.canonicalUrl, listed ? alternates : [])
+        };
+      }),
+      alternates,
+      warnings
+    }
+  };
+}
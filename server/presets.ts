@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { briefSchema } from "@/server/generation";
+import { dataPath, readJsonFile, writeJsonFile } from "@/server/storage";
+
+export const presetSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  brief: briefSchema.partial()
+});
+
+export interface BriefPreset extends z.infer<typeof presetSchema> {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const presetsFile = () => dataPath("presets.json");
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+export async function listPresets(): Promise<BriefPreset[]> {
+  const presets = (await readJsonFile<BriefPreset[]>(presetsFile())) ?? [];
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function savePreset(input: z.infer<typeof presetSchema>): Promise<BriefPreset> {
+  return serialized(async () => {
+    const presets = await listPresets();
+    const now = new Date().toISOString();
+    const existing = presets.find((preset) => preset.name.toLowerCase() === input.name.toLowerCase());
+    const preset: BriefPreset = existing
+      ? { ...existing, name: input.name, brief: input.brief, updatedAt: now }
+      : { id: randomUUID(), name: input.name, brief: input.brief, createdAt: now, updatedAt: now };
+    await writeJsonFile(presetsFile(), [...presets.filter((entry) => entry.id !== preset.id), preset]);
+    return preset;
+  });
+}
+
+export function deletePreset(id: string): Promise<boolean> {
+  return serialized(async () => {
+    const presets = await listPresets();
+    const remaining = presets.filter((preset) => preset.id !== id);
+    if (remaining.length === presets.length) return false;
+    await writeJsonFile(presetsFile(), remaining);
+    return true;
+  });
+}
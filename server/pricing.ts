@@ -0,0 +1,129 @@
+const pricePattern =
+  /(?:R\$|US\$|MX\$|€|£|\$)\s?\d(?:[\d.,]*\d)?|\d(?:[\d.,]*\d)?\s?(?:reais|d[oó]lares|dollars|euros|pesos)\b/giu;
+
+export type PriceFormat = "display" | "structured";
+
+export function parsePriceAmount(value: string, format: PriceFormat = "display"): number | null {
+  // JSON-LD and microdata prices are machine-formatted, so "12.500" is twelve and a half, not twelve thousand.
+  if (format === "structured" && /^\d+(?:\.\d+)?$/.test(value.trim())) {
+    return Number.parseFloat(value.trim());
+  }
+
+  const digits = value.replace(/[^\d.,]/g, "");
+  if (!/\d/.test(digits)) {
+    return null;
+  }
+
+  const lastDot = digits.lastIndexOf(".");
+  const lastComma = digits.lastIndexOf(",");
+  let normalized: string;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? "." : ",";
+    const thousands = decimal === "." ? "," : ".";
+    normalized = digits.split(thousands).join("").replace(decimal, ".");
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? "." : ",";
+    const parts = digits.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    normalized = isThousands ? parts.join("") : parts.join(".");
+  } else {
+    normalized = digits;
+  }
+
+  const amount = Number.parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+export function findPriceMentions(text: string): Array<{ text: string; amount: number }> {
+  return Array.from(text.matchAll(pricePattern)).flatMap((match) => {
+    const amount = parsePriceAmount(match[0]);
+    return amount === null ? [] : [{ text: match[0].trim(), amount }];
+  });
+}
+
+export function productPriceFormat(product: { price?: string; offers?: Array<{ price?: string }> }): PriceFormat {
+  return product.price && product.offers?.some((offer) => offer.price === product.price) ? "structured" : "display";
+}
+
+export interface NormalizedPrice {
+  amount: number;
+  currency: string;
+}
+
+const localeCurrencies: Record<string, string> = {
+  "pt-br": "BRL",
+  "pt-pt": "EUR",
+  "en-us": "USD",
+  "en-gb": "GBP",
+  "en-ca": "CAD",
+  "es-es": "EUR",
+  "es-mx": "MXN",
+  "es-ar": "ARS",
+  "es-co": "COP",
+  "es-cl": "CLP"
+};
+
+const languageCurrencies: Record<string, string> = {
+  pt: "BRL",
+  en: "USD",
+  es: "EUR"
+};
+
+const currencyMarkers: Array<{ pattern: RegExp; currency: string }> = [
+  { pattern: /\b(BRL|USD|EUR|MXN|ARS|GBP|CAD|COP|CLP)\b/i, currency: "" },
+  { pattern: /R\$|\breais\b/i, currency: "BRL" },
+  { pattern: /US\$|\bd[oó]lares\b|\bdollars\b/i, currency: "USD" },
+  { pattern: /MX\$/i, currency: "MXN" },
+  { pattern: /€|\beuros\b/i, currency: "EUR" },
+  { pattern: /£/, currency: "GBP" }
+];
+
+function localeCurrency(locale: string): string | undefined {
+  const normalized = locale.toLowerCase().replace(/_/g, "-");
+  return localeCurrencies[normalized] ?? languageCurrencies[normalized.split("-")[0]];
+}
+
+function isoCurrency(value?: string): string | undefined {
+  const code = value?.trim().toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : undefined;
+}
+
+export function detectCurrency(raw: string, context: { currencyHint?: string; locale: string }): string | undefined {
+  for (const marker of currencyMarkers) {
+    const match = raw.match(marker.pattern);
+    if (match) {
+      return marker.currency || match[1].toUpperCase();
+    }
+  }
+  const hinted = isoCurrency(context.currencyHint);
+  if (hinted) {
+    return hinted;
+  }
+  const fromLocale = localeCurrency(context.locale);
+  if (/\$/.test(raw) && fromLocale && !["BRL", "EUR", "GBP"].includes(fromLocale)) {
+    return fromLocale;
+  }
+  return /\$/.test(raw) ? "USD" : fromLocale;
+}
+
+export function normalizePrice(
+  raw: string | undefined,
+  context: { currencyHint?: string; locale: string; format?: PriceFormat }
+): NormalizedPrice | null {
+  if (!raw) return null;
+  const amount = parsePriceAmount(raw, context.format);
+  const currency = detectCurrency(raw, context);
+  if (amount === null || amount <= 0 || !currency) {
+    return null;
+  }
+  return { amount: Math.round(amount * 100) / 100, currency };
+}
+
+export function formatPrice(price: NormalizedPrice, locale: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency: price.currency }).format(price.amount);
+  } catch {
+    return `${price.currency} ${price.amount.toFixed(2)}`;
+  }
+}
@@ -0,0 +1,372 @@
+import { z } from "zod";
+import { affiliateReportSchema, carryOverAffiliateReport, injectAffiliateLinks } from "@/server/affiliates";
+import { checkCompliance, insertDisclosure } from "@/server/compliance";
+import { completeDraftPart, reviewSchema, seoSchema, type DraftDiagnostics } from "@/server/draft";
+import { checkFacts } from "@/server/factCheck";
+import {
+  buildDiscovery,
+  draftContext,
+  renderExports,
+  requestSchema,
+  withImageText,
+  type GenerationResult
+} from "@/server/generation";
+import {
+  generateImage,
+  generateImages,
+  imageProviderIds,
+  imageStatuses,
+  resolveImageOptions
+} from "@/server/imageGen";
+import { aspectRatios, imageCandidates, imageSetSchema, processImages } from "@/server/images";
+import { getLlmProvider, resolveLlmSettings, type LlmSettings } from "@/server/llm";
+import { productPriceFormat } from "@/server/pricing";
+import type { ProductData } from "@/server/scraper";
+import { auditSeo } from "@/server/seoAudit";
+import { spellCheckArticle, type SpellCheckResult } from "@/server/spellcheck";
+import {
+  applySectionPlainText,
+  articleFormatInstructions,
+  articleSchema,
+  articleToPlainText,
+  sectionSchema,
+  sectionToPlainText,
+  type Article
+} from "@/utils/article";
+
+const targetSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("section"), index: z.number().int().min(0) }),
+  z.object({ type: z.literal("seo") }),
+  z.object({ type: z.literal("reviews") }),
+  z.object({ type: z.literal("images") }),
+  z.object({ type: z.literal("image"), index: z.number().int().min(0), prompt: z.string().trim().min(1).optional() })
+]);
+
+const spellcheckSchema = z.object({
+  corrected: z.string(),
+  corrections: z.array(z.object({ original: z.string(), suggestion: z.string() })),
+  flags: z.array(
+    z.object({ start: z.number().int(), end: z.number().int(), original: z.string(), candidates: z.array(z.string()) })
+  ),
+  locale: z.string(),
+  dictionary: z.string().nullable(),
+  mode: z.enum(["rewrite", "suggest", "report-only"])
+});
+
+export const regenerateRequestSchema = z
+  .object({
+    request: requestSchema,
+    target: targetSchema,
+    instruction: z.string().trim().max(500).optional(),
+    current: z.object({
+      article: articleSchema,
+      seo: seoSchema,
+      reviews: z.array(reviewSchema),
+      product: z.object({ sourceUrl: z.string().url() }).passthrough(),
+      images: z.array(
+        z.object({
+          url: z.string().url(),
+          prompt: z.string(),
+          status: z.enum(imageStatuses).default("generated"),
+          provider: z.enum(imageProviderIds).default("nano-banana"),
+          aspectRatio: z.enum(aspectRatios).default("4:3"),
+          seed: z.number().int().optional(),
+          negativePrompt: z.string().optional(),
+          error: z.string().optional(),
+          alt: z.string().optional(),
+          width: z.number().optional(),
+          height: z.number().optional()
+        })
+      ),
+      imageSet: imageSetSchema.optional(),
+      affiliateReport: affiliateReportSchema.optional(),
+      spellcheck: spellcheckSchema,
+      discoverySchema: z.record(z.unknown()).nullable()
+    })
+  })
+  .superRefine((body, ctx) => {
+    if (body.target.type === "section" && body.target.index >= body.current.article.sections.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["target", "index"],
+        message: "Section index is out of range."
+      });
+    }
+    if (body.target.type === "image" && body.target.index >= body.current.images.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["target", "index"],
+        message: "Image index is out of range."
+      });
+    }
+  });
+
+export type RegenerateBody = z.infer<typeof regenerateRequestSchema>;
+export type RegenerationTarget = z.infer<typeof targetSchema>;
+
+export interface RegenerationResult {
+  target: RegenerationTarget;
+  patch: Partial<GenerationResult>;
+  llm: LlmSettings;
+  diagnostics: DraftDiagnostics;
+}
+
+const partInstructions: Record<RegenerationTarget["type"], string> = {
+  section: `Return JSON {section} containing only the rewritten section. ${articleFormatInstructions}`,
+  seo: "Return JSON {seo: {title, metaDescription, keywords, ogTitle, ogDescription}} only.",
+  reviews:
+    "Return JSON {reviews: [{reviewer, rating (1-5), summary, details}]} with original reviews grounded in product facts.",
+  images: "Return JSON {imagePrompts} with two or three image generation prompts that match the article.",
+  image: "Return JSON {prompt} with one rewritten image generation prompt for the image at regenerate.index."
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function publishedDate(schema: Record<string, unknown> | null): string | undefined {
+  const graph = Array.isArray(schema?.["@graph"]) ? schema["@graph"] : [];
+  const article = graph.find((node): node is Record<string, unknown> => isRecord(node) && node["@type"] === "Article");
+  return typeof article?.datePublished === "string" ? article.datePublished : undefined;
+}
+
+function withinRange(flag: SpellCheckResult["flags"][number], start: number, end: number): boolean {
+  return flag.start >= start && flag.end <= end;
+}
+
+async function recheckSpelling(input: {
+  previous: Article;
+  next: Article;
+  spellcheck: SpellCheckResult;
+  request: RegenerateBody["request"];
+  product: ProductData;
+}): Promise<{ article: Article; spellcheck: SpellCheckResult }> {
+  const headline = articleToPlainText(input.next).split("\n")[0];
+  const previousTexts = input.previous.sections.map(sectionToPlainText);
+  const flags = input.spellcheck.flags.filter((flag) => flag.end <= headline.length);
+  const corrections = [...input.spellcheck.corrections];
+  const sections: Article["sections"] = [];
+  const texts: string[] = [headline];
+  let previousOffset = headline.length + 1;
+  let offset = headline.length + 1;
+  let result: Pick<SpellCheckResult, "dictionary" | "mode"> = input.spellcheck;
+
+  for (const section of input.next.sections) {
+    const previousText = previousTexts[sections.length] ?? "";
+    const text = sectionToPlainText(section);
+    if (text === previousText) {
+      const shift = offset - previousOffset;
+      flags.push(
+        ...input.spellcheck.flags
+          .filter((flag) => withinRange(flag, previousOffset, previousOffset + previousText.length))
+          .map((flag) => ({ ...flag, start: flag.start + shift, end: flag.end + shift }))
+      );
+      sections.push(section);
+      texts.push(text);
+    } else {
+      const checked = await spellCheckArticle({
+        text,
+        locale: input.request.targetLocale,
+        mode: input.request.spellcheckMode,
+        product: input.product
+      });
+      flags.push(...checked.flags.map((flag) => ({ ...flag, start: flag.start + offset, end: flag.end + offset })));
+      corrections.push(...checked.corrections);
+      sections.push(applySectionPlainText(section, checked.corrected));
+      texts.push(checked.corrected);
+      result = checked;
+    }
+    previousOffset += previousText.length + 1;
+    offset += texts[texts.length - 1].length + 1;
+  }
+
+  return {
+    article: { ...input.next, sections },
+    spellcheck: {
+      corrected: texts.join("\n"),
+      corrections,
+      flags,
+      locale: input.request.targetLocale,
+      dictionary: result.dictionary,
+      mode: result.mode
+    }
+  };
+}
+
+async function reviseArticle(
+  body: RegenerateBody,
+  index: number,
+  section: Article["sections"][number]
+): Promise<Partial<GenerationResult>> {
+  const { request, current } = body;
+  const product = current.product as ProductData;
+  const sections = current.article.sections.map((existing, position) =>
+    position === index ? { ...section, kind: existing.kind } : existing
+  );
+  const affiliates = injectAffiliateLinks({
+    article: { ...current.article, sections },
+    affiliateLinks: request.affiliateLinks,
+    locale: request.targetLocale,
+    trackingTag: request.trackingTag
+  });
+  const hasAffiliateLinks = Object.values(request.affiliateLinks).some(Boolean);
+  const disclosed = insertDisclosure({ article: affiliates.article, locale: request.targetLocale, hasAffiliateLinks });
+  const { article, spellcheck } = await recheckSpelling({
+    previous: current.article,
+    next: disclosed,
+    spellcheck: current.spellcheck,
+    request,
+    product
+  });
+
+  return {
+    article,
+    exports: renderExports(article, current.imageSet?.images),
+    affiliateReport: carryOverAffiliateReport(current.affiliateReport, {
+      links: affiliates.links,
+      discarded: affiliates.discarded
+    }),
+    spellcheck,
+    compliance: checkCompliance({
+      article,
+      reviews: current.reviews,
+      locale: request.targetLocale,
+      price: product.price,
+      priceFormat: productPriceFormat(product),
+      hasAffiliateLinks
+    }),
+    factCheck: checkFacts({ article, reviews: current.reviews, product })
+  };
+}
+
+export async function regenerate(body: RegenerateBody): Promise<RegenerationResult> {
+  const { request, target, current } = body;
+  const product = current.product as ProductData;
+  const llm = resolveLlmSettings(request.llm);
+  const complete = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+    completeDraftPart({
+      provider: getLlmProvider(llm.provider),
+      schema,
+      request: {
+        model: llm.model,
+        temperature: llm.temperature,
+        system: `You are an SEO-savvy review journalist revising one part of an existing review article. Keep it truthful, consistent with the rest of the article and the product facts, and localized for the target locale. Follow the editor instruction when one is given. ${partInstructions[target.type]}`,
+        user: JSON.stringify({
+          ...draftContext(request, product),
+          regenerate: target,
+          instruction: body.instruction,
+          article: current.article,
+          seo: current.seo,
+          reviews: current.reviews,
+          imagePrompts: current.images.map((image) => image.prompt)
+        })
+      }
+    });
+
+  let patch: Partial<GenerationResult>;
+  let diagnostics: DraftDiagnostics;
+  switch (target.type) {
+    case "section": {
+      const part = await complete(z.object({ section: sectionSchema }));
+      patch = await reviseArticle(body, target.index, part.value.section);
+      diagnostics = part.diagnostics;
+      break;
+    }
+    case "seo": {
+      const part = await complete(z.object({ seo: seoSchema }));
+      patch = { seo: part.value.seo };
+      diagnostics = part.diagnostics;
+      break;
+    }
+    case "reviews": {
+      const part = await complete(z.object({ reviews: z.array(reviewSchema).min(1) }));
+      const hasAffiliateLinks = Object.values(request.affiliateLinks).some(Boolean);
+      patch = {
+        reviews: part.value.reviews,
+        compliance: checkCompliance({
+          article: current.article,
+          reviews: part.value.reviews,
+          locale: request.targetLocale,
+          price: product.price,
+          priceFormat: productPriceFormat(product),
+          hasAffiliateLinks
+        }),
+        factCheck: checkFacts({ article: current.article, reviews: part.value.reviews, product })
+      };
+      diagnostics = part.diagnostics;
+      break;
+    }
+    case "images": {
+      const part = await complete(z.object({ imagePrompts: z.array(z.string().trim().min(1)).min(1) }));
+      const generated = await generateImages({
+        prompts: part.value.imagePrompts,
+        product,
+        style: request.imageStyle,
+        options: resolveImageOptions(request.imageOptions)
+      });
+      const imageSet = await processImages({
+        candidates: imageCandidates(product, generated),
+        product,
+        locale: request.targetLocale,
+        llm
+      });
+      patch = {
+        images: withImageText(generated, imageSet),
+        imageSet,
+        exports: renderExports(current.article, imageSet.images)
+      };
+      diagnostics = part.diagnostics;
+      break;
+    }
+    case "image": {
+      const part = target.prompt
+        ? { value: { prompt: target.prompt }, diagnostics: { attempts: 0, repairs: [] } }
+        : await complete(z.object({ prompt: z.string().trim().min(1) }));
+      const image = await generateImage({
+        prompt: part.value.prompt,
+        index: target.index,
+        product,
+        style: request.imageStyle,
+        options: resolveImageOptions(request.imageOptions)
+      });
+      const generated = current.images.map((existing, index) => (index === target.index ? image : existing));
+      const imageSet = await processImages({
+        candidates: imageCandidates(product, generated),
+        product,
+        locale: request.targetLocale,
+        llm
+      });
+      patch = {
+        images: withImageText(generated, imageSet),
+        imageSet,
+        exports: renderExports(current.article, imageSet.images)
+      };
+      diagnostics = part.diagnostics;
+      break;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const discovery = buildDiscovery({
+    body: request,
+    article: patch.article ?? current.article,
+    seo: patch.seo ?? current.seo,
+    reviews: patch.reviews ?? current.reviews,
+    product,
+    images: patch.images ?? current.images,
+    imageSet: patch.imageSet ?? current.imageSet,
+    datePublished: publishedDate(current.discoverySchema) ?? now,
+    dateModified: now
+  });
+
+  const seoAudit = auditSeo({
+    article: patch.article ?? current.article,
+    seo: patch.seo ?? current.seo,
+    targetKeywords: request.targetKeywords,
+    locale: request.targetLocale,
+    images: (patch.imageSet ?? current.imageSet)?.images ?? patch.images ?? current.images,
+    pageUrl: request.articleUrl
+  });
+
+  return { target, patch: { ...patch, ...discovery, seoAudit }, llm, diagnostics };
+}
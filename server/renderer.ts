@@ -0,0 +1,87 @@
+import { assertAllowedByRobots, assertPublicUrl, browserUserAgent, startGuardedProxy } from "@/server/fetcher";
+
+export interface RenderedPage {
+  url: string;
+  html: string;
+}
+
+const blockedResourceTypes = new Set([
+  "image",
+  "media",
+  "font",
+  "stylesheet",
+  "texttrack",
+  "eventsource",
+  "websocket",
+  "manifest"
+]);
+
+function renderTimeoutMs(): number {
+  const value = Number.parseInt(process.env.HEADLESS_TIMEOUT_MS ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 20000;
+}
+
+export async function renderPage(url: string, options: { respectRobots?: boolean } = {}): Promise<RenderedPage> {
+  await assertPublicUrl(url);
+  if (options.respectRobots) {
+    await assertAllowedByRobots(new URL(url));
+  }
+  const executablePath = process.env.CHROMIUM_PATH;
+  if (!executablePath) {
+    throw new Error("Set CHROMIUM_PATH to a local Chromium binary to render JavaScript pages.");
+  }
+
+  const timeout = renderTimeoutMs();
+  const startedAt = Date.now();
+  const puppeteer = await import("puppeteer-core");
+  const proxy = await startGuardedProxy();
+  const browser = await puppeteer
+    .launch({
+      executablePath,
+      headless: true,
+      timeout,
+      args: [
+        "--disable-dev-shm-usage",
+        "--disable-gpu",
+        "--mute-audio",
+        `--proxy-server=${proxy.url}`,
+        "--proxy-bypass-list=<-loopback>",
+        ...(process.env.CHROMIUM_ARGS ?? "").split(" ").filter(Boolean)
+      ]
+    })
+    .catch(async (error) => {
+      await proxy.close();
+      throw error;
+    });
+  try {
+    const page = await browser.newPage();
+    await page.setUserAgent(browserUserAgent);
+    await page.setRequestInterception(true);
+    page.on("request", (request) => {
+      if (request.isInterceptResolutionHandled()) return;
+      if (blockedResourceTypes.has(request.resourceType())) {
+        void request.abort("blockedbyclient");
+        return;
+      }
+      if (!options.respectRobots || !request.isNavigationRequest()) {
+        void request.continue();
+        return;
+      }
+      assertAllowedByRobots(new URL(request.url())).then(
+        () => request.continue(),
+        () => request.abort("blockedbyclient")
+      );
+    });
+
+    const response = await page.goto(url, { waitUntil: "domcontentloaded", timeout });
+    if (response && response.status() >= 400) {
+      throw new Error(`${url} responded with HTTP ${response.status()} in the headless browser.`);
+    }
+    const remaining = Math.max(timeout - (Date.now() - startedAt), 1000);
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: remaining }).catch(() => undefined);
+    return { url: page.url(), html: await page.content() };
+  } finally {
+    await browser.close();
+    await proxy.close();
+  }
+}
@@ -0,0 +1,345 @@
+import type { Article } from "@/utils/article";
+import { detectPlatform, platformName, type AffiliateLinks, type AffiliatePlatform } from "@/server/affiliates";
+import { normalizePrice, type NormalizedPrice } from "@/server/pricing";
+import type { ProductData } from "@/server/scraper";
+
+type SchemaNode = Record<string, unknown>;
+
+interface PricedOffer extends NormalizedPrice {
+  platform: AffiliatePlatform | null;
+  availability?: string;
+  url: string;
+}
+
+function collectPrices(product: ProductData, locale: string, warnings: string[]): PricedOffer[] {
+  const structured = Boolean(product.offers?.some((offer) => offer.price));
+  const candidates =
+    product.offers && structured
+      ? product.offers
+      : [{ price: product.price, priceCurrency: product.currency, availability: product.availability, url: undefined }];
+
+  return candidates.flatMap((offer) => {
+    if (!offer.price) return [];
+    const normalized = normalizePrice(offer.price, {
+      currencyHint: offer.priceCurrency ?? product.currency,
+      locale,
+      format: structured ? "structured" : "display"
+    });
+    if (!normalized) {
+      warnings.push(`Could not parse price "${offer.price}"; it was left out of the Offer markup.`);
+      return [];
+    }
+    const url = offer.url ?? product.sourceUrl;
+    return [
+      {
+        ...normalized,
+        platform: detectPlatform(url),
+        availability: offer.availability ?? product.availability,
+        url
+      }
+    ];
+  });
+}
+
+function offerNode(price: PricedOffer, url: string, seller?: string): SchemaNode {
+  return {
+    "@type": "Offer",
+    price: price.amount.toFixed(2),
+    priceCurrency: price.currency,
+    availability: price.availability ?? "https://schema.org/InStock",
+    url,
+    seller: seller ? { "@type": "Organization", name: seller } : undefined
+  };
+}
+
+export function buildOffers(input: {
+  product: ProductData;
+  affiliateLinks: AffiliateLinks;
+  locale: string;
+}): { offers: SchemaNode | SchemaNode[] | undefined; warnings: string[] } {
+  const warnings: string[] = [];
+  const prices = collectPrices(input.product, input.locale, warnings);
+  if (prices.length === 0) {
+    if (!input.product.price) {
+      warnings.push("No product price was found, so the schema has no offers.");
+    }
+    return { offers: undefined, warnings };
+  }
+
+  const affiliateOffers = (Object.entries(input.affiliateLinks) as Array<[AffiliatePlatform, string]>).flatMap(
+    ([platform, link]) => {
+      const price = link ? prices.find((candidate) => candidate.platform === platform) : undefined;
+      return price ? [offerNode(price, link, platformName(platform))] : [];
+    }
+  );
+  const offers = affiliateOffers.length > 0 ? affiliateOffers : prices.map((price) => offerNode(price, price.url));
+
+  if (offers.length === 1) {
+    return { offers: offers[0], warnings };
+  }
+
+  const currencies = new Set(offers.map((offer) => offer.priceCurrency));
+  if (currencies.size > 1) {
+    warnings.push("Offers use different currencies, so they are listed individually instead of as an AggregateOffer.");
+    return { offers, warnings };
+  }
+
+  const amounts = offers.map((offer) => Number(offer.price));
+  return {
+    offers: {
+      "@type": "AggregateOffer",
+      priceCurrency: offers[0].priceCurrency,
+      lowPrice: Math.min(...amounts).toFixed(2),
+      highPrice: Math.max(...amounts).toFixed(2),
+      offerCount: offers.length,
+      offers
+    },
+    warnings
+  };
+}
+
+export interface SchemaTypeToggles {
+  product: boolean;
+  article: boolean;
+  faq: boolean;
+  breadcrumbs: boolean;
+}
+
+export interface SchemaImage {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+function pageAddress(value?: string): string | undefined {
+  try {
+    const url = new URL(value ?? "");
+    url.hash = "";
+    return /^https?:$/.test(url.protocol) ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function nodeId(pageUrl: string | undefined, fragment: string): string {
+  return `${pageUrl ?? ""}#${fragment}`;
+}
+
+function productNode(
+  payload: {
+    seo: { metaDescription: string };
+    reviews: Array<{ reviewer: string; rating: number; summary: string; details: string }>;
+    product: ProductData;
+    offers: SchemaNode | SchemaNode[] | undefined;
+  },
+  id: string
+): SchemaNode {
+  const reviewList = payload.reviews.map((review) => ({
+    "@type": "Review",
+    author: { "@type": "Person", name: review.reviewer },
+    reviewRating: {
+      "@type": "Rating",
+      ratingValue: review.rating,
+      bestRating: 5,
+      worstRating: 1
+    },
+    reviewBody: review.details,
+    name: review.summary
+  }));
+
+  return {
+    "@type": "Product",
+    "@id": id,
+    name: payload.product.title,
+    description: payload.product.description ?? payload.seo.metaDescription,
+    image: payload.product.images,
+    brand: payload.product.brand ? { "@type": "Brand", name: payload.product.brand } : undefined,
+    gtin: payload.product.gtin,
+    sku: payload.product.sku,
+    mpn: payload.product.mpn,
+    aggregateRating:
+      reviewList.length > 0
+        ? {
+            "@type": "AggregateRating",
+            ratingValue:
+              (reviewList.reduce((total, current) => total + (current.reviewRating?.ratingValue as number), 0) /
+                reviewList.length
+              ).toFixed(1),
+            reviewCount: reviewList.length
+          }
+        : undefined,
+    review: reviewList,
+    offers: payload.offers
+  };
+}
+
+function articleImages(images: SchemaImage[], fallback: string[]): Array<SchemaNode | string> {
+  const wide = images.filter((image) => (image.width ?? 0) >= 1200);
+  if (wide.length > 0) {
+    return wide.map((image) => ({ "@type": "ImageObject", url: image.url, width: image.width, height: image.height }));
+  }
+  return fallback;
+}
+
+function faqNode(article: Article, id: string): SchemaNode | null {
+  const items = article.sections
+    .flatMap((section) => [...section.blocks, ...section.subsections.flatMap((subsection) => subsection.blocks)])
+    .flatMap((block) => (block.type === "faq" ? block.items : []));
+  if (items.length === 0) return null;
+  return {
+    "@type": "FAQPage",
+    "@id": id,
+    mainEntity: items.map((item) => ({
+      "@type": "Question",
+      name: item.question,
+      acceptedAnswer: { "@type": "Answer", text: item.answer }
+    }))
+  };
+}
+
+function breadcrumbNode(pageUrl: string, headline: string, id: string): SchemaNode {
+  const { hostname, origin } = new URL(pageUrl);
+  return {
+    "@type": "BreadcrumbList",
+    "@id": id,
+    itemListElement: [
+      { "@type": "ListItem", position: 1, name: hostname, item: `${origin}/` },
+      { "@type": "ListItem", position: 2, name: headline, item: pageUrl }
+    ]
+  };
+}
+
+interface PagePayload {
+  article: Article;
+  seo: { title: string; metaDescription: string; keywords: string[]; canonicalUrl?: string };
+  images: SchemaImage[];
+  locale: string;
+  authorName: string;
+  pageUrl?: string;
+  datePublished: string;
+  dateModified?: string;
+  types: SchemaTypeToggles;
+}
+
+function buildPageGraph(
+  payload: PagePayload,
+  about: { fragment: string; node: (id: string) => SchemaNode } | null,
+  fallbackImages: string[]
+): { schema: SchemaNode | null; warnings: string[] } {
+  const warnings: string[] = [];
+  const graph: SchemaNode[] = [];
+  const pageUrl = pageAddress(payload.pageUrl ?? payload.seo.canonicalUrl);
+  const ids = {
+    article: nodeId(pageUrl, "article"),
+    faq: nodeId(pageUrl, "faq"),
+    breadcrumbs: nodeId(pageUrl, "breadcrumbs")
+  };
+
+  const aboutId = about ? nodeId(pageUrl, about.fragment) : undefined;
+  if (about && aboutId) {
+    graph.push(about.node(aboutId));
+  }
+
+  if (payload.types.article) {
+    const image = articleImages(payload.images, fallbackImages);
+    if (!image.some((entry) => typeof entry !== "string")) {
+      warnings.push("No image of at least 1200px width is available for the Article node.");
+    }
+    graph.push({
+      "@type": "Article",
+      "@id": ids.article,
+      headline: payload.article.headline,
+      description: payload.seo.metaDescription,
+      keywords: payload.seo.keywords.join(", ") || undefined,
+      image,
+      author: { "@type": "Person", name: payload.authorName },
+      datePublished: payload.datePublished,
+      dateModified: payload.dateModified ?? payload.datePublished,
+      inLanguage: payload.locale,
+      mainEntityOfPage: pageUrl,
+      about: aboutId ? { "@id": aboutId } : undefined,
+      breadcrumb: payload.types.breadcrumbs && pageUrl ? { "@id": ids.breadcrumbs } : undefined
+    });
+  }
+
+  if (payload.types.faq) {
+    const faq = faqNode(payload.article, ids.faq);
+    if (faq) {
+      graph.push(faq);
+    } else {
+      warnings.push("The article has no FAQ block, so FAQPage was left out.");
+    }
+  }
+
+  if (payload.types.breadcrumbs) {
+    if (pageUrl) {
+      graph.push(breadcrumbNode(pageUrl, payload.article.headline, ids.breadcrumbs));
+    } else {
+      warnings.push("BreadcrumbList needs the article URL; set articleUrl or an SEO canonical URL.");
+    }
+  }
+
+  if (graph.length === 0) {
+    return { schema: null, warnings };
+  }
+  return { schema: { "@context": "https://schema.org", "@graph": graph }, warnings };
+}
+
+export function generateDiscoverySchema(
+  payload: PagePayload & {
+    reviews: Array<{ reviewer: string; rating: number; summary: string; details: string }>;
+    product: ProductData;
+    offers: SchemaNode | SchemaNode[] | undefined;
+  }
+): { schema: SchemaNode | null; warnings: string[] } {
+  const about = payload.types.product ? { fragment: "product", node: (id: string) => productNode(payload, id) } : null;
+  return buildPageGraph(payload, about, payload.product.images ?? []);
+}
+
+export function generateComparisonSchema(
+  payload: PagePayload & {
+    products: Array<{
+      product: ProductData;
+      offers: SchemaNode | SchemaNode[] | undefined;
+      rating: number;
+      verdict: string;
+      bestFor: string;
+    }>;
+  }
+): { schema: SchemaNode | null; warnings: string[] } {
+  const itemList = (id: string): SchemaNode => ({
+    "@type": "ItemList",
+    "@id": id,
+    name: payload.article.headline,
+    numberOfItems: payload.products.length,
+    itemListElement: payload.products.map((entry, index) => {
+      const { product } = entry;
+      const node = productNode({ seo: payload.seo, reviews: [], product, offers: entry.offers }, `${id}-${index + 1}`);
+      return {
+        "@type": "ListItem",
+        position: index + 1,
+        item: {
+          ...node,
+          url: product.canonicalUrl ?? product.sourceUrl,
+          aggregateRating: product.aggregateRating?.reviewCount
+            ? {
+                "@type": "AggregateRating",
+                ratingValue: product.aggregateRating.ratingValue,
+                reviewCount: product.aggregateRating.reviewCount
+              }
+            : undefined,
+          review: {
+            "@type": "Review",
+            author: { "@type": "Person", name: payload.authorName },
+            reviewRating: { "@type": "Rating", ratingValue: entry.rating, bestRating: 5, worstRating: 1 },
+            name: entry.bestFor,
+            reviewBody: entry.verdict
+          }
+        }
+      };
+    })
+  });
+  const about = payload.types.product ? { fragment: "products", node: itemList } : null;
+  const fallbackImages = payload.products.flatMap(({ product }) => product.images?.slice(0, 1) ?? []);
+  return buildPageGraph(payload, about, fallbackImages);
+}
@@ -0,0 +1,282 @@
+type SchemaNode = Record<string, unknown>;
+
+export interface SchemaIssue {
+  severity: "error" | "warning";
+  type: string;
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+interface NodeContext {
+  node: SchemaNode;
+  type: string;
+  path: string;
+  parentType: string | null;
+}
+
+type Report = (severity: SchemaIssue["severity"], message: string) => void;
+
+const numericPattern = /^-?\d+(\.\d+)?$/;
+
+function isNode(value: unknown): value is SchemaNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typesOf(node: SchemaNode): string[] {
+  const raw = node["@type"];
+  return (Array.isArray(raw) ? raw : [raw])
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => value.replace(/^https?:\/\/schema\.org\//, ""));
+}
+
+function values(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && numericPattern.test(value.trim())) return Number(value);
+  return null;
+}
+
+function collectNodes(value: unknown, path: string, parentType: string | null, nodes: NodeContext[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectNodes(entry, `${path}[${index}]`, parentType, nodes));
+    return;
+  }
+  if (!isNode(value)) return;
+  const types = typesOf(value);
+  types.forEach((type) => nodes.push({ node: value, type, path, parentType }));
+  Object.entries(value).forEach(([key, child]) => {
+    if (key !== "@context" && key !== "@type") {
+      collectNodes(child, `${path}.${key}`, types[0] ?? parentType, nodes);
+    }
+  });
+}
+
+function collectReferences(value: unknown, path: string, references: Array<{ id: string; path: string }>): void {
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectReferences(entry, `${path}[${index}]`, references));
+    return;
+  }
+  if (!isNode(value)) return;
+  const keys = Object.keys(value);
+  if (keys.length === 1 && typeof value["@id"] === "string") {
+    references.push({ id: value["@id"], path });
+    return;
+  }
+  Object.entries(value).forEach(([key, child]) => collectReferences(child, `${path}.${key}`, references));
+}
+
+function checkRating(node: SchemaNode, report: Report): void {
+  const rating = asNumber(node.ratingValue);
+  if (rating === null) {
+    report("error", "ratingValue is required and must be a number.");
+    return;
+  }
+  const best = asNumber(node.bestRating) ?? 5;
+  const worst = asNumber(node.worstRating) ?? 1;
+  if (rating < worst || rating > best) {
+    report("error", `ratingValue ${rating} is outside the ${worst}–${best} range.`);
+  }
+}
+
+function validateArticle({ node }: NodeContext, report: Report): void {
+  if (!isPresent(node.headline)) {
+    report("warning", "Article headline is recommended.");
+  } else if (typeof node.headline === "string" && node.headline.length > 110) {
+    report("warning", "Article headline should be at most 110 characters.");
+  }
+  if (!isPresent(node.image)) {
+    report("warning", "Article image is recommended; Discover prefers images at least 1200px wide.");
+  }
+  values(node.image).forEach((image) => {
+    const width = isNode(image) ? asNumber(image.width) : null;
+    if (width !== null && width < 1200) {
+      report("warning", `Article image is ${width}px wide; Discover recommends at least 1200px.`);
+    }
+  });
+  if (!isPresent(node.datePublished)) report("warning", "Article datePublished is recommended.");
+  if (!isPresent(node.author)) report("warning", "Article author is recommended.");
+}
+
+const validators: Record<string, (context: NodeContext, report: Report) => void> = {
+  Product: ({ node }, report) => {
+    if (!isPresent(node.name)) report("error", "Product requires a name.");
+    if (!isPresent(node.review) && !isPresent(node.aggregateRating) && !isPresent(node.offers)) {
+      report("error", "Product needs at least one of review, aggregateRating, or offers.");
+    }
+    if (!isPresent(node.image)) report("warning", "Product image is recommended.");
+    if (!isPresent(node.description)) report("warning", "Product description is recommended.");
+    if (!isPresent(node.brand)) report("warning", "Product brand is recommended.");
+    if (!["gtin", "gtin8", "gtin12", "gtin13", "gtin14", "sku", "mpn"].some((key) => isPresent(node[key]))) {
+      report("warning", "A global identifier (gtin, sku, or mpn) is recommended for merchant listings.");
+    }
+    values(node.isRelatedTo).forEach((related) => {
+      if (!isNode(related) || !typesOf(related).some((type) => type === "Product" || type === "Service")) {
+        report("error", "isRelatedTo must reference Product or Service nodes.");
+      }
+    });
+  },
+  Offer: ({ node }, report) => {
+    const specification = isNode(node.priceSpecification) ? node.priceSpecification : {};
+    const price = node.price ?? specification.price;
+    const currency = node.priceCurrency ?? specification.priceCurrency;
+    if (asNumber(price) === null) {
+      report("error", "Offer price is required and must be numeric (for example 1299.90).");
+    }
+    if (typeof currency !== "string" || !/^[A-Z]{3}$/.test(currency)) {
+      report("error", "Offer priceCurrency must be a three-letter ISO 4217 code.");
+    }
+    if (!isPresent(node.availability)) {
+      report("warning", "Offer availability is recommended.");
+    } else if (typeof node.availability !== "string" || !/^https?:\/\/schema\.org\//.test(node.availability)) {
+      report("error", "Offer availability must be a schema.org ItemAvailability URL.");
+    }
+    if (!isPresent(node.url)) report("warning", "Offer url is recommended.");
+  },
+  AggregateOffer: ({ node }, report) => {
+    const low = asNumber(node.lowPrice);
+    const high = asNumber(node.highPrice);
+    if (low === null) report("error", "AggregateOffer lowPrice is required and must be numeric.");
+    if (typeof node.priceCurrency !== "string" || !/^[A-Z]{3}$/.test(node.priceCurrency)) {
+      report("error", "AggregateOffer priceCurrency must be a three-letter ISO 4217 code.");
+    }
+    if (high === null) report("warning", "AggregateOffer highPrice is recommended.");
+    if (low !== null && high !== null && low > high) report("error", "AggregateOffer lowPrice exceeds highPrice.");
+    if (!isPresent(node.offerCount)) report("warning", "AggregateOffer offerCount is recommended.");
+  },
+  AggregateRating: ({ node }, report) => {
+    checkRating(node, report);
+    const count = asNumber(node.ratingCount ?? node.reviewCount);
+    if (count === null || count <= 0) {
+      report("error", "AggregateRating needs a positive ratingCount or reviewCount.");
+    }
+  },
+  Rating: ({ node }, report) => checkRating(node, report),
+  Review: ({ node, parentType }, report) => {
+    const author = values(node.author)[0];
+    const authorName = isNode(author) ? author.name : author;
+    if (typeof authorName !== "string" || !authorName.trim()) {
+      report("error", "Review author with a name is required.");
+    } else if (authorName.length > 100) {
+      report("warning", "Review author name should be under 100 characters.");
+    }
+    if (!isPresent(node.reviewRating)) report("error", "Review reviewRating is required.");
+    if (!parentType && !isPresent(node.itemReviewed)) {
+      report("error", "A standalone Review requires itemReviewed.");
+    }
+  },
+  Article: validateArticle,
+  NewsArticle: validateArticle,
+  BlogPosting: validateArticle,
+  BreadcrumbList: ({ node }, report) => {
+    const items = values(node.itemListElement);
+    if (items.length === 0) {
+      report("error", "BreadcrumbList requires itemListElement with at least one ListItem.");
+    }
+    items.forEach((item, index) => {
+      if (!isNode(item) || !typesOf(item).includes("ListItem")) {
+        report("error", `itemListElement[${index}] must be a ListItem.`);
+        return;
+      }
+      if (asNumber(item.position) === null) report("error", `itemListElement[${index}] requires a numeric position.`);
+      if (!isPresent(item.name)) report("error", `itemListElement[${index}] requires a name.`);
+      if (index < items.length - 1 && !isPresent(item.item)) {
+        report("error", `itemListElement[${index}] requires an item URL; only the last crumb may omit it.`);
+      }
+    });
+  },
+  ItemList: ({ node }, report) => {
+    const items = values(node.itemListElement);
+    if (items.length === 0) {
+      report("error", "ItemList requires itemListElement with at least one ListItem.");
+    }
+    items.forEach((item, index) => {
+      if (!isNode(item) || !typesOf(item).includes("ListItem")) {
+        report("error", `itemListElement[${index}] must be a ListItem.`);
+        return;
+      }
+      if (asNumber(item.position) !== index + 1) {
+        report("error", `itemListElement[${index}] position must be ${index + 1}.`);
+      }
+      if (!isPresent(item.item) && !isPresent(item.url)) {
+        report("error", `itemListElement[${index}] requires an item or url.`);
+      }
+    });
+  },
+  FAQPage: ({ node }, report) => {
+    const questions = values(node.mainEntity);
+    if (questions.length === 0) {
+      report("error", "FAQPage requires mainEntity with at least one Question.");
+    }
+    questions.forEach((question, index) => {
+      if (!isNode(question) || !typesOf(question).includes("Question")) {
+        report("error", `mainEntity[${index}] must be a Question.`);
+        return;
+      }
+      const answer = isNode(question.acceptedAnswer) ? question.acceptedAnswer : null;
+      if (!isPresent(question.name)) report("error", `mainEntity[${index}] Question requires a name.`);
+      if (!answer || !isPresent(answer.text)) {
+        report("error", `mainEntity[${index}] Question requires an acceptedAnswer with text.`);
+      }
+    });
+  }
+};
+
+export function validateRichResults(schema: unknown): SchemaValidationResult {
+  const errors: SchemaIssue[] = [];
+  const warnings: SchemaIssue[] = [];
+
+  if (!isNode(schema)) {
+    errors.push({ severity: "error", type: "JSON-LD", path: "$", message: "Schema must be a JSON object." });
+    return { valid: false, errors, warnings };
+  }
+
+  const context = schema["@context"];
+  if (typeof context !== "string" || !/^https?:\/\/schema\.org\/?$/.test(context)) {
+    errors.push({ severity: "error", type: "JSON-LD", path: "$", message: "@context must be https://schema.org." });
+  }
+
+  const nodes: NodeContext[] = [];
+  collectNodes(schema["@graph"] ?? schema, schema["@graph"] ? "$.@graph" : "$", null, nodes);
+  if (nodes.length === 0) {
+    errors.push({ severity: "error", type: "JSON-LD", path: "$", message: "No typed schema.org nodes were found." });
+  }
+
+  nodes.forEach((context) => {
+    validators[context.type]?.(context, (severity, message) => {
+      (severity === "error" ? errors : warnings).push({ severity, type: context.type, path: context.path, message });
+    });
+  });
+
+  const defined = new Set(nodes.map(({ node }) => node["@id"]).filter((id) => typeof id === "string"));
+  const references: Array<{ id: string; path: string }> = [];
+  collectReferences(schema["@graph"] ?? schema, schema["@graph"] ? "$.@graph" : "$", references);
+  references
+    .filter((reference) => !defined.has(reference.id))
+    .forEach((reference) => {
+      warnings.push({
+        severity: "warning",
+        type: "JSON-LD",
+        path: reference.path,
+        message: `@id ${reference.id} is referenced but not defined in this graph.`
+      });
+    });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
@@ -0,0 +1,198 @@
+import { createHash } from "crypto";
+import path from "path";
+import * as cheerio from "cheerio";
+import { genericExtractor, selectExtractor, type ExtractedFields } from "@/server/extractors";
+import { extractStructuredData } from "@/server/extractors/structuredData";
+import { fetchPage } from "@/server/fetcher";
+import { renderPage } from "@/server/renderer";
+import { dataPath, readJsonFile, writeJsonFile } from "@/server/storage";
+
+export interface ProductOffer {
+  price?: string;
+  priceCurrency?: string;
+  availability?: string;
+  url?: string;
+  seller?: string;
+}
+
+export interface ProductData {
+  title?: string;
+  description?: string;
+  highlights?: string[];
+  specifications?: Record<string, string>;
+  price?: string;
+  currency?: string;
+  availability?: string;
+  offers?: ProductOffer[];
+  brand?: string;
+  images?: string[];
+  gtin?: string;
+  sku?: string;
+  mpn?: string;
+  aggregateRating?: {
+    ratingValue: number;
+    reviewCount?: number;
+    bestRating?: number;
+  };
+  canonicalUrl?: string;
+  sourceUrl: string;
+}
+
+export interface ExtractionReport {
+  extractor: string;
+  structuredDataFields: string[];
+  fields: string[];
+  fallbackFields: string[];
+  renderMode?: "static" | "headless";
+  renderError?: string;
+  fetchedAt?: string;
+  cached?: boolean;
+  error?: string;
+}
+
+export interface ScrapeResult {
+  product: ProductData;
+  extraction: ExtractionReport;
+}
+
+interface CachedScrape {
+  url: string;
+  expiresAt: number;
+  result: ScrapeResult;
+}
+
+const maxMemoryEntries = 200;
+const memoryCache = new Map<string, CachedScrape>();
+
+function cacheTtlMs(): number {
+  const seconds = Number.parseInt(process.env.SCRAPE_CACHE_TTL_SECONDS ?? "", 10);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 6 * 60 * 60) * 1000;
+}
+
+function cacheKey(url: string): string {
+  const normalized = new URL(url);
+  normalized.hash = "";
+  return normalized.href;
+}
+
+function cacheFile(key: string): string {
+  return path.join(dataPath("scrape-cache"), `${createHash("sha256").update(key).digest("hex")}.json`);
+}
+
+async function readCachedScrape(key: string): Promise<ScrapeResult | null> {
+  const entry = memoryCache.get(key) ?? (await readJsonFile<CachedScrape>(cacheFile(key)).catch(() => null));
+  if (!entry || entry.url !== key || entry.expiresAt <= Date.now()) {
+    memoryCache.delete(key);
+    return null;
+  }
+  memoryCache.set(key, entry);
+  return { ...entry.result, extraction: { ...entry.result.extraction, cached: true } };
+}
+
+async function writeCachedScrape(key: string, result: ScrapeResult): Promise<void> {
+  const entry: CachedScrape = { url: key, expiresAt: Date.now() + cacheTtlMs(), result };
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  if (memoryCache.size > maxMemoryEntries) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+  try {
+    await writeJsonFile(cacheFile(key), entry);
+  } catch (error) {
+    console.error("Failed to write scrape cache", error);
+  }
+}
+
+function filledFields(fields: ExtractedFields): Array<keyof ExtractedFields> {
+  return (Object.keys(fields) as Array<keyof ExtractedFields>).filter((key) => fields[key] !== undefined);
+}
+
+export function extractProductData(html: string, url: string): ScrapeResult {
+  const $ = cheerio.load(html);
+  const pageUrl = new URL(url);
+  const extractor = selectExtractor(pageUrl);
+  const layers = [
+    extractStructuredData($),
+    extractor.extract($, pageUrl),
+    extractor === genericExtractor ? {} : genericExtractor.extract($, pageUrl)
+  ];
+
+  const merged: ExtractedFields = {};
+  const filledBy = layers.map((layer) => {
+    const filled = filledFields(layer).filter((key) => merged[key] === undefined);
+    filled.forEach((key) => {
+      Object.assign(merged, { [key]: layer[key] });
+    });
+    return filled;
+  });
+
+  return {
+    product: { ...merged, sourceUrl: url },
+    extraction: {
+      extractor: extractor.id,
+      structuredDataFields: filledBy[0],
+      fields: filledBy[1],
+      fallbackFields: filledBy[2]
+    }
+  };
+}
+
+function isThin(product: ProductData): boolean {
+  return !product.title || (!product.description && !product.price);
+}
+
+function filledCount(product: ProductData): number {
+  return Object.values(product).filter((value) => value !== undefined).length;
+}
+
+async function extractWithFallback(html: string, url: string, respectRobots: boolean): Promise<ScrapeResult> {
+  const scraped = extractProductData(html, url);
+  if (!isThin(scraped.product)) {
+    return { ...scraped, extraction: { ...scraped.extraction, renderMode: "static" } };
+  }
+  try {
+    const rendered = await renderPage(url, { respectRobots });
+    const candidate = extractProductData(rendered.html, rendered.url);
+    if (filledCount(candidate.product) > filledCount(scraped.product)) {
+      return { ...candidate, extraction: { ...candidate.extraction, renderMode: "headless" } };
+    }
+    return { ...scraped, extraction: { ...scraped.extraction, renderMode: "static" } };
+  } catch (error) {
+    console.warn("Headless rendering failed:", error);
+    const renderError = error instanceof Error ? error.message : "Unknown error";
+    return { ...scraped, extraction: { ...scraped.extraction, renderMode: "static", renderError } };
+  }
+}
+
+export async function scrapeProductData(url: string): Promise<ScrapeResult> {
+  try {
+    const key = cacheKey(url);
+    const cached = cacheTtlMs() > 0 ? await readCachedScrape(key) : null;
+    if (cached) {
+      return cached;
+    }
+    const respectRobots = process.env.SCRAPER_RESPECT_ROBOTS === "true";
+    const page = await fetchPage(url, { respectRobots });
+    const scraped = await extractWithFallback(page.body, page.url, respectRobots);
+    const result: ScrapeResult = {
+      product: { ...scraped.product, sourceUrl: url },
+      extraction: { ...scraped.extraction, fetchedAt: new Date().toISOString() }
+    };
+    if (cacheTtlMs() > 0 && !result.extraction.renderError) {
+      await writeCachedScrape(key, result);
+    }
+    return result;
+  } catch (error) {
+    console.error("Failed to scrape product data:", error);
+    return {
+      product: { sourceUrl: url },
+      extraction: {
+        extractor: "none",
+        structuredDataFields: [],
+        fields: [],
+        fallbackFields: [],
+        error: error instanceof Error ? error.message : "Unknown error"
+      }
+    };
+  }
+}
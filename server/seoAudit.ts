@@ -0,0 +1,339 @@
+import type { Article, ArticleBlock } from "@/utils/article";
+import { articleToPlainText } from "@/utils/article";
+
+export type SeoCheckStatus = "pass" | "warn" | "fail";
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  status: SeoCheckStatus;
+  weight: number;
+  detail: string;
+}
+
+export interface KeywordReport {
+  keyword: string;
+  count: number;
+  density: number;
+  inTitle: boolean;
+  inFirstParagraph: boolean;
+  inHeadings: boolean;
+  inMetaDescription: boolean;
+}
+
+export interface SeoAudit {
+  score: number;
+  checks: SeoCheck[];
+  keywords: KeywordReport[];
+  readability: { formula: string; score: number; wordsPerSentence: number; syllablesPerWord: number };
+  headings: { h1: number; h2: number; h3: number };
+  title: { characters: number; pixels: number };
+  metaDescription: { characters: number };
+  links: { internal: number; outbound: number };
+  images: { total: number; withAlt: number };
+}
+
+const titlePixelLimit = 580;
+const metaDescriptionRange = { min: 120, max: 160, floor: 70 };
+const densityRange = { min: 0.5, max: 2.5, ceiling: 3.5 };
+
+const readabilityFormulas: Record<
+  string,
+  { name: string; pass: number; warn: number; score: (wordsPerSentence: number, syllablesPerWord: number) => number }
+> = {
+  en: {
+    name: "Flesch Reading Ease",
+    pass: 60,
+    warn: 40,
+    score: (wordsPerSentence, syllablesPerWord) => 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord
+  },
+  pt: {
+    name: "Flesch (Martins et al., pt-BR)",
+    pass: 50,
+    warn: 25,
+    score: (wordsPerSentence, syllablesPerWord) => 248.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord
+  },
+  es: {
+    name: "Fernández Huerta",
+    pass: 60,
+    warn: 40,
+    score: (wordsPerSentence, syllablesPerWord) => 206.84 - 1.02 * wordsPerSentence - 60 * syllablesPerWord
+  }
+};
+
+const glyphWidths: Array<{ pattern: RegExp; width: number }> = [
+  { pattern: /[ijlI|!.,:;'`]/, width: 5 },
+  { pattern: /[ftr\s()[\]-]/, width: 7 },
+  { pattern: /[mwMW@%]/, width: 17 },
+  { pattern: /[A-Z]/, width: 13 }
+];
+
+const wordPattern = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+function words(text: string): string[] {
+  return normalize(text).match(wordPattern) ?? [];
+}
+
+function countPhrase(haystack: string[], phrase: string[]): number {
+  if (phrase.length === 0) return 0;
+  let count = 0;
+  for (let index = 0; index + phrase.length <= haystack.length; index += 1) {
+    if (phrase.every((word, offset) => haystack[index + offset] === word)) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+function contains(text: string, keyword: string): boolean {
+  return countPhrase(words(text), words(keyword)) > 0;
+}
+
+function syllables(word: string, language: string): number {
+  const groups = word.match(/[aeiouy]+/g)?.length ?? 0;
+  const silentE = language === "en" && /[^l]e$/.test(word) && groups > 1 ? 1 : 0;
+  return Math.max(1, groups - silentE);
+}
+
+function allBlocks(article: Article): ArticleBlock[] {
+  return article.sections.flatMap((section) => [
+    ...section.blocks,
+    ...section.subsections.flatMap((subsection) => subsection.blocks)
+  ]);
+}
+
+function proseOf(block: ArticleBlock): string[] {
+  switch (block.type) {
+    case "paragraph":
+      return [block.text];
+    case "list":
+      return block.items;
+    case "prosCons":
+      return [...block.pros, ...block.cons];
+    case "faq":
+      return block.items.map((item) => item.answer);
+    default:
+      return [];
+  }
+}
+
+export function titlePixelWidth(title: string): number {
+  return Array.from(title).reduce(
+    (total, glyph) => total + (glyphWidths.find(({ pattern }) => pattern.test(glyph))?.width ?? 11),
+    0
+  );
+}
+
+function measureReadability(article: Article, locale: string): SeoAudit["readability"] & { status: SeoCheckStatus } {
+  const language = locale.toLowerCase().split("-")[0];
+  const formula = readabilityFormulas[language] ?? readabilityFormulas.en;
+  const sentences = allBlocks(article)
+    .flatMap(proseOf)
+    .flatMap((text) => text.split(/(?<=[.!?…])\s+/))
+    .map(words)
+    .filter((sentence) => sentence.length > 0);
+  const wordCount = sentences.reduce((total, sentence) => total + sentence.length, 0);
+  if (wordCount === 0) {
+    return { formula: formula.name, score: 0, wordsPerSentence: 0, syllablesPerWord: 0, status: "fail" };
+  }
+  const syllableCount = sentences.flat().reduce((total, word) => total + syllables(word, language), 0);
+  const wordsPerSentence = wordCount / sentences.length;
+  const syllablesPerWord = syllableCount / wordCount;
+  const score = Math.round(formula.score(wordsPerSentence, syllablesPerWord) * 10) / 10;
+  return {
+    formula: formula.name,
+    score,
+    wordsPerSentence: Math.round(wordsPerSentence * 10) / 10,
+    syllablesPerWord: Math.round(syllablesPerWord * 100) / 100,
+    status: score >= formula.pass ? "pass" : score >= formula.warn ? "warn" : "fail"
+  };
+}
+
+function linkHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function rangeStatus(value: number, range: { min: number; max: number }, lower: number, upper: number): SeoCheckStatus {
+  if (value >= range.min && value <= range.max) return "pass";
+  return value >= lower && value <= upper ? "warn" : "fail";
+}
+
+export function auditSeo(input: {
+  article: Article;
+  seo: { title: string; metaDescription: string; ogTitle?: string; ogDescription?: string };
+  targetKeywords: string;
+  locale: string;
+  images: Array<{ alt?: string }>;
+  pageUrl?: string;
+}): SeoAudit {
+  const { article, seo } = input;
+  const checks: SeoCheck[] = [];
+  const check = (id: string, label: string, weight: number, status: SeoCheckStatus, detail: string) => {
+    checks.push({ id, label, status, weight, detail });
+  };
+
+  const bodyWords = words(articleToPlainText(article));
+  const headings = [
+    ...article.sections.map((section) => section.heading),
+    ...article.sections.flatMap((section) => section.subsections.map((subsection) => subsection.heading))
+  ];
+  const firstParagraph = allBlocks(article).find((block) => block.type === "paragraph");
+  const keywords: KeywordReport[] = input.targetKeywords
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .map((keyword) => {
+      const count = countPhrase(bodyWords, words(keyword));
+      return {
+        keyword,
+        count,
+        density: bodyWords.length ? Math.round(((count * words(keyword).length) / bodyWords.length) * 1000) / 10 : 0,
+        inTitle: contains(seo.title, keyword) || contains(article.headline, keyword),
+        inFirstParagraph: firstParagraph?.type === "paragraph" && contains(firstParagraph.text, keyword),
+        inHeadings: headings.some((heading) => contains(heading, keyword)),
+        inMetaDescription: contains(seo.metaDescription, keyword)
+      };
+    });
+
+  const primary = keywords[0];
+  if (primary) {
+    const placement = (id: string, label: string, weight: number, found: boolean, where: string) =>
+      check(
+        id,
+        label,
+        weight,
+        found ? "pass" : "fail",
+        found ? `"${primary.keyword}" appears in the ${where}.` : `Add "${primary.keyword}" to the ${where}.`
+      );
+    placement("keyword-title", "Primary keyword in title", 3, primary.inTitle, "title");
+    placement("keyword-intro", "Primary keyword in first paragraph", 2, primary.inFirstParagraph, "first paragraph");
+    placement("keyword-headings", "Primary keyword in a heading", 2, primary.inHeadings, "H2/H3 headings");
+    placement("keyword-meta", "Primary keyword in meta description", 1, primary.inMetaDescription, "meta description");
+
+    const densityStatus = (density: number) => rangeStatus(density, densityRange, 0.2, densityRange.ceiling);
+    const outOfRange = keywords
+      .filter((keyword) => densityStatus(keyword.density) !== "pass")
+      .map((keyword) => `${keyword.keyword} ${keyword.density}%`);
+    const status = densityStatus(primary.density);
+    check(
+      "keyword-density",
+      "Keyword density",
+      2,
+      status === "pass" && outOfRange.length > 0 ? "warn" : status,
+      `"${primary.keyword}" is at ${primary.density}% (aim for ${densityRange.min}–${densityRange.max}%)` +
+        (outOfRange.length > 0 ? `; out of range: ${outOfRange.join(", ")}.` : ".")
+    );
+  } else {
+    check("keywords", "Target keywords", 2, "warn", "No target keywords were set, so placement was not checked.");
+  }
+
+  const pixels = titlePixelWidth(seo.title);
+  check(
+    "title-width",
+    "Title fits the SERP",
+    2,
+    pixels <= titlePixelLimit ? "pass" : "fail",
+    `About ${pixels}px wide (${seo.title.length} characters); Google truncates titles past ~${titlePixelLimit}px.`
+  );
+
+  const metaLength = seo.metaDescription.length;
+  check(
+    "meta-description",
+    "Meta description length",
+    2,
+    rangeStatus(metaLength, metaDescriptionRange, metaDescriptionRange.floor, metaDescriptionRange.max),
+    `${metaLength} characters (aim for ${metaDescriptionRange.min}–${metaDescriptionRange.max}).`
+  );
+
+  const missingOg = [!seo.ogTitle?.trim() && "ogTitle", !seo.ogDescription?.trim() && "ogDescription"].filter(Boolean);
+  check(
+    "open-graph",
+    "Open Graph tags",
+    1,
+    missingOg.length === 0 ? "pass" : "fail",
+    missingOg.length === 0 ? "ogTitle and ogDescription are set." : `Missing ${missingOg.join(" and ")}.`
+  );
+
+  const headingCounts = {
+    h1: article.headline.trim() ? 1 : 0,
+    h2: article.sections.length,
+    h3: article.sections.reduce((total, section) => total + section.subsections.length, 0)
+  };
+  const duplicates = headings.filter((heading, index) => headings.indexOf(heading) !== index);
+  const longHeadings = headings.filter((heading) => heading.length > 70);
+  const headingProblems = [
+    headingCounts.h2 < 2 && "use at least two H2 sections",
+    duplicates.length > 0 && `duplicate headings: ${[...new Set(duplicates)].join(", ")}`,
+    longHeadings.length > 0 && `${longHeadings.length} heading(s) longer than 70 characters`
+  ].filter((problem): problem is string => Boolean(problem));
+  check(
+    "headings",
+    "Heading structure",
+    2,
+    headingCounts.h2 < 2 ? "fail" : headingProblems.length > 0 ? "warn" : "pass",
+    `1 H1, ${headingCounts.h2} H2, ${headingCounts.h3} H3` +
+      (headingProblems.length > 0 ? `; ${headingProblems.join("; ")}.` : ".")
+  );
+
+  const { status: readabilityStatus, ...readability } = measureReadability(article, input.locale);
+  check(
+    "readability",
+    "Readability",
+    2,
+    readabilityStatus,
+    `${readability.formula} score ${readability.score} (${readability.wordsPerSentence} words per sentence).`
+  );
+
+  const withAlt = input.images.filter((image) => image.alt?.trim()).length;
+  check(
+    "image-alt",
+    "Image alt text",
+    1,
+    input.images.length > 0 && withAlt === input.images.length ? "pass" : withAlt > 0 ? "warn" : "fail",
+    input.images.length > 0 ? `${withAlt} of ${input.images.length} image(s) have alt text.` : "No images yet."
+  );
+
+  const pageHost = input.pageUrl ? linkHost(input.pageUrl) : null;
+  const hosts = allBlocks(article).flatMap((block) => (block.type === "cta" && block.url ? [linkHost(block.url)] : []));
+  const links = {
+    internal: hosts.filter((host) => pageHost && host === pageHost).length,
+    outbound: hosts.filter((host) => !pageHost || host !== pageHost).length
+  };
+  check(
+    "links",
+    "Internal and outbound links",
+    1,
+    links.internal > 0 && links.outbound > 0 ? "pass" : "warn",
+    `${links.internal} internal, ${links.outbound} outbound` +
+      (links.internal === 0 ? "; add at least one link to a related page on your site." : ".")
+  );
+
+  const totalWeight = checks.reduce((total, entry) => total + entry.weight, 0);
+  const earned = checks.reduce(
+    (total, entry) => total + entry.weight * (entry.status === "pass" ? 1 : entry.status === "warn" ? 0.5 : 0),
+    0
+  );
+
+  return {
+    score: Math.round((earned / totalWeight) * 100),
+    checks,
+    keywords,
+    readability,
+    headings: headingCounts,
+    title: { characters: seo.title.length, pixels },
+    metaDescription: { characters: metaLength },
+    links,
+    images: { total: input.images.length, withAlt }
+  };
+}
@@ -0,0 +1,230 @@
+import nspell from "nspell";
+import type { Dictionary } from "nspell";
+
+type SpellChecker = {
+  correct: (word: string) => boolean;
+  suggest: (word: string) => string[];
+};
+
+type LexiconSource = {
+  title?: string;
+  brand?: string;
+  specifications?: Record<string, string>;
+};
+
+type DictionaryLoader = (callback: (error: Error | null, dictionary?: Dictionary) => void) => void;
+
+export type SpellCheckMode = "rewrite" | "suggest" | "report-only";
+
+export interface SpellCheckFlag {
+  start: number;
+  end: number;
+  original: string;
+  candidates: string[];
+}
+
+export interface SpellCheckResult {
+  corrected: string;
+  corrections: Array<{ original: string; suggestion: string }>;
+  flags: SpellCheckFlag[];
+  locale: string;
+  dictionary: string | null;
+  mode: SpellCheckMode;
+}
+
+const dictionaries: Record<string, { name: string; load: () => Promise<DictionaryLoader> }> = {
+  "en-us": { name: "dictionary-en", load: () => import("dictionary-en").then((module) => module.default) },
+  "pt-br": { name: "dictionary-pt", load: () => import("dictionary-pt").then((module) => module.default) },
+  "es-es": { name: "dictionary-es", load: () => import("dictionary-es").then((module) => module.default) },
+  "es-mx": { name: "dictionary-es", load: () => import("dictionary-es").then((module) => module.default) }
+};
+
+const languageFallbacks: Record<string, string> = {
+  en: "en-us",
+  es: "es-es"
+};
+
+const projectLexicon = [
+  "Amazon",
+  "Mercado",
+  "Livre",
+  "Shopee",
+  "Magalu",
+  "Clickbank",
+  "Hotmart",
+  "Eduzz",
+  "Kiwify",
+  "Braip",
+  "Nano",
+  "Banana",
+  "Pix",
+  "Wi-Fi",
+  "Bluetooth",
+  "USB-C",
+  "smartphone",
+  "notebook",
+  "gamer",
+  "review",
+  "unboxing"
+];
+
+const MAX_CANDIDATES = 4;
+
+const spellCheckers = new Map<string, Promise<SpellChecker>>();
+
+function resolveDictionaryKey(locale: string): string | null {
+  const normalized = locale.trim().toLowerCase().replace(/_/g, "-");
+  if (dictionaries[normalized]) {
+    return normalized;
+  }
+  return languageFallbacks[normalized.split("-")[0]] ?? null;
+}
+
+async function getSpellChecker(key: string): Promise<SpellChecker> {
+  let checker = spellCheckers.get(key);
+  if (!checker) {
+    checker = dictionaries[key].load().then(
+      (dictionary) =>
+        new Promise<SpellChecker>((resolve, reject) => {
+          dictionary((error, dict) => {
+            if (error) {
+              reject(error);
+              return;
+            }
+            if (!dict) {
+              reject(new Error("Dictionary load failed"));
+              return;
+            }
+            resolve(nspell(dict));
+          });
+        })
+    );
+    checker.catch(() => spellCheckers.delete(key));
+    spellCheckers.set(key, checker);
+  }
+  return checker;
+}
+
+function tokenize(value?: string): string[] {
+  if (!value) return [];
+  return value.split(/[\s.,;:!?()"“”'’/|]+/).filter(Boolean);
+}
+
+function buildAllowlist(product?: LexiconSource): Set<string> {
+  const envTerms = (process.env.SPELLCHECK_ALLOWLIST ?? "").split(",");
+  const terms = [
+    ...projectLexicon,
+    ...envTerms,
+    ...tokenize(product?.brand),
+    ...tokenize(product?.title),
+    ...Object.entries(product?.specifications ?? {}).flatMap(([key, value]) => [...tokenize(key), ...tokenize(value)])
+  ];
+  return new Set(terms.map((term) => term.trim().toLowerCase()).filter(Boolean));
+}
+
+function isProtectedToken(token: string, allowlist: Set<string>): boolean {
+  return allowlist.has(token.toLowerCase()) || /\p{N}/u.test(token) || /^\p{Lu}{2,}$/u.test(token);
+}
+
+function matchCase(token: string, suggestion: string): string {
+  return /^\p{Lu}/u.test(token) ? suggestion.charAt(0).toUpperCase() + suggestion.slice(1) : suggestion;
+}
+
+function findMisspellings(checker: SpellChecker, text: string, allowlist: Set<string>): SpellCheckFlag[] {
+  const flags: SpellCheckFlag[] = [];
+  const tokens = text.split(/(\s+|[.,;:!?()"“”'’])/);
+  let offset = 0;
+  tokens.forEach((token) => {
+    const start = offset;
+    offset += token.length;
+    const wordMatch = token.match(/^[\p{L}\p{N}][\p{L}\p{N}'-]*$/u);
+    if (!wordMatch || isProtectedToken(token, allowlist)) {
+      return;
+    }
+    const lower = token.toLowerCase();
+    if (checker.correct(lower) || checker.correct(token)) {
+      return;
+    }
+    flags.push({
+      start,
+      end: offset,
+      original: token,
+      candidates: checker
+        .suggest(lower)
+        .slice(0, MAX_CANDIDATES)
+        .map((suggestion) => matchCase(token, suggestion))
+    });
+  });
+  return flags;
+}
+
+function applyFirstCandidates(text: string, flags: SpellCheckFlag[]) {
+  const corrections: Array<{ original: string; suggestion: string }> = [];
+  let corrected = "";
+  let cursor = 0;
+  flags.forEach((flag) => {
+    const suggestion = flag.candidates[0];
+    if (!suggestion) {
+      return;
+    }
+    corrected += text.slice(cursor, flag.start) + suggestion;
+    cursor = flag.end;
+    corrections.push({ original: flag.original, suggestion });
+  });
+
+  return {
+    corrected: corrected + text.slice(cursor),
+    corrections
+  };
+}
+
+export async function spellCheckArticle(input: {
+  text: string;
+  locale: string;
+  mode?: Exclude<SpellCheckMode, "report-only">;
+  product?: LexiconSource;
+}): Promise<SpellCheckResult> {
+  const key = resolveDictionaryKey(input.locale);
+  const reportOnly: SpellCheckResult = {
+    corrected: input.text,
+    corrections: [],
+    flags: [],
+    locale: input.locale,
+    dictionary: null,
+    mode: "report-only"
+  };
+
+  if (!key) {
+    return reportOnly;
+  }
+
+  let checker: SpellChecker;
+  try {
+    checker = await getSpellChecker(key);
+  } catch (error) {
+    console.error(`Failed to load spell-check dictionary for ${input.locale}:`, error);
+    return reportOnly;
+  }
+
+  const flags = findMisspellings(checker, input.text, buildAllowlist(input.product));
+  const mode = input.mode ?? "rewrite";
+
+  if (mode === "suggest") {
+    return {
+      corrected: input.text,
+      corrections: [],
+      flags,
+      locale: input.locale,
+      dictionary: dictionaries[key].name,
+      mode
+    };
+  }
+
+  return {
+    ...applyFirstCandidates(input.text, flags),
+    flags: [],
+    locale: input.locale,
+    dictionary: dictionaries[key].name,
+    mode
+  };
+}
@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+const pendingWrites = new Map<string, Promise<void>>();
+
+export function dataPath(...segments: string[]): string {
+  return path.join(process.env.DATA_DIR ?? path.join(process.cwd(), "data"), ...segments);
+}
+
+export function assertSafeId(id: string, label: string): string {
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid ${label} id "${id}".`);
+  }
+  return id;
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+export async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  const data = JSON.stringify(value, null, 2);
+  const write = (pendingWrites.get(file) ?? Promise.resolve()).then(async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temporary = `${file}.tmp`;
+    await fs.writeFile(temporary, data, "utf8");
+    await fs.rename(temporary, file);
+  });
+  pendingWrites.set(file, write.catch(() => undefined));
+  return write;
+}
+
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+}
+
+export async function removeFile(file: string): Promise<boolean> {
+  try {
+    await fs.rm(file, { recursive: true });
+    return true;
+  } catch (error) {
+    if (isMissing(error)) return false;
+    throw error;
+  }
+}
+
+export async function listDirectory(directory: string, kind: "files" | "directories"): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    return entries
+      .filter((entry) => (kind === "files" ? entry.isFile() : entry.isDirectory()))
+      .map((entry) => entry.name);
+  } catch (error) {
+    if (isMissing(error)) return [];
+    throw error;
+  }
+}
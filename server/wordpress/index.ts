@@ -0,0 +1,271 @@
+import { promises as fs } from "fs";
+import path from "path";
+import axios, { type AxiosInstance } from "axios";
+import { z } from "zod";
+import { seoSchema, type Draft } from "@/server/draft";
+import { imageFile, imageSetSchema, type ImageSet, type ProcessedImage } from "@/server/images";
+import { articleSchema, renderArticleBodyHtml, type Article, type ArticleFigure } from "@/utils/article";
+
+export const seoPlugins = ["yoast", "rankmath"] as const;
+
+export type SeoPlugin = (typeof seoPlugins)[number];
+
+export const publishRequestSchema = z
+  .object({
+    status: z.enum(["draft", "future"]).optional(),
+    date: z.string().datetime({ offset: true }).optional(),
+    current: z
+      .object({
+        article: articleSchema,
+        seo: seoSchema,
+        imageSet: imageSetSchema.optional(),
+        discoverySchema: z.record(z.unknown()).nullable()
+      })
+      .optional()
+  })
+  .superRefine((body, ctx) => {
+    if (body.status === "future" && (!body.date || Date.parse(body.date) <= Date.now())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["date"],
+        message: "Scheduled posts need a publish date in the future."
+      });
+    }
+  });
+
+export type PublishBody = z.infer<typeof publishRequestSchema>;
+
+export interface WordPressMedia {
+  id: number;
+  url: string;
+}
+
+export interface WordPressPublication {
+  siteUrl: string;
+  postId: number;
+  link: string;
+  status: string;
+  date?: string;
+  featuredMediaId?: number;
+  media: Record<string, WordPressMedia>;
+  categories: number[];
+  tags: number[];
+  seoPlugin: SeoPlugin;
+  publishedAt: string;
+}
+
+interface WordPressConfig {
+  siteUrl: string;
+  username: string;
+  password: string;
+  seoPlugin: SeoPlugin;
+}
+
+export interface PublishContent {
+  article: Article;
+  seo: Draft["seo"];
+  imageSet?: ImageSet;
+  discoverySchema: Record<string, unknown> | null;
+}
+
+function wordpressConfig(): WordPressConfig {
+  const siteUrl = process.env.WORDPRESS_URL?.replace(/\/$/, "");
+  const username = process.env.WORDPRESS_USERNAME;
+  const password = process.env.WORDPRESS_APP_PASSWORD;
+  if (!siteUrl || !username || !password) {
+    throw new Error("Set WORDPRESS_URL, WORDPRESS_USERNAME, and WORDPRESS_APP_PASSWORD to publish to WordPress.");
+  }
+  const plugin = process.env.WORDPRESS_SEO_PLUGIN as SeoPlugin | undefined;
+  return { siteUrl, username, password, seoPlugin: plugin && seoPlugins.includes(plugin) ? plugin : "yoast" };
+}
+
+function wordpressError(error: unknown, action: string): Error {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { message?: string } | undefined;
+    const detail = data?.message ?? error.message;
+    return new Error(`WordPress could not ${action}: ${detail}`);
+  }
+  return error instanceof Error ? error : new Error(`WordPress could not ${action}.`);
+}
+
+function isNotFound(error: unknown): boolean {
+  return axios.isAxiosError(error) && error.response?.status === 404;
+}
+
+function seoMeta(seo: Draft["seo"], plugin: SeoPlugin): Record<string, string> {
+  if (plugin === "rankmath") {
+    return {
+      rank_math_title: seo.title,
+      rank_math_description: seo.metaDescription,
+      rank_math_focus_keyword: seo.keywords.join(","),
+      rank_math_facebook_title: seo.ogTitle,
+      rank_math_facebook_description: seo.ogDescription
+    };
+  }
+  return {
+    _yoast_wpseo_title: seo.title,
+    _yoast_wpseo_metadesc: seo.metaDescription,
+    _yoast_wpseo_focuskw: seo.keywords[0] ?? "",
+    "_yoast_wpseo_opengraph-title": seo.ogTitle,
+    "_yoast_wpseo_opengraph-description": seo.ogDescription
+  };
+}
+
+function jsonLdScript(schema: Record<string, unknown> | null, uploads: Map<string, string>): string {
+  if (!schema) return "";
+  const json = JSON.stringify(schema, (_, value) =>
+    typeof value === "string" && uploads.has(value) ? uploads.get(value) : value
+  );
+  return `<script type="application/ld+json">${json.replace(/</g, "\\u003c")}</script>\n`;
+}
+
+function uploadVariant(image: ProcessedImage) {
+  return (
+    image.variants.find((variant) => variant.aspectRatio === "16:9" && variant.format === "webp") ??
+    image.variants.find((variant) => variant.format === "webp")
+  );
+}
+
+async function uploadImage(
+  api: AxiosInstance,
+  image: ProcessedImage,
+  existing: WordPressMedia | undefined
+): Promise<WordPressMedia | null> {
+  const variant = uploadVariant(image);
+  if (!variant) return null;
+  const details = { alt_text: image.alt, caption: image.caption };
+  if (existing) {
+    try {
+      await api.post(`/media/${existing.id}`, details);
+      return existing;
+    } catch (error) {
+      if (!isNotFound(error)) throw wordpressError(error, `update media ${existing.id}`);
+    }
+  }
+  const file = path.basename(new URL(variant.url, "http://localhost").pathname);
+  const data = await fs.readFile(imageFile(file));
+  try {
+    const response = await api.post<{ id: number; source_url: string }>("/media", data, {
+      headers: { "Content-Type": "image/webp", "Content-Disposition": `attachment; filename="${file}"` }
+    });
+    await api.post(`/media/${response.data.id}`, details);
+    return { id: response.data.id, url: response.data.source_url };
+  } catch (error) {
+    throw wordpressError(error, `upload ${file}`);
+  }
+}
+
+async function ensureTerms(api: AxiosInstance, taxonomy: "tags" | "categories", names: string[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (const name of names) {
+    try {
+      const found = await api.get<Array<{ id: number; name: string }>>(`/${taxonomy}`, {
+        params: { search: name, per_page: 100 }
+      });
+      const match = found.data.find((term) => term.name.toLowerCase() === name.toLowerCase());
+      if (match) {
+        ids.push(match.id);
+        continue;
+      }
+      const created = await api.post<{ id: number }>(`/${taxonomy}`, { name });
+      ids.push(created.data.id);
+    } catch (error) {
+      const data = axios.isAxiosError(error)
+        ? (error.response?.data as { code?: string; data?: { term_id?: number } } | undefined)
+        : undefined;
+      if (data?.code === "term_exists" && data.data?.term_id) {
+        ids.push(data.data.term_id);
+        continue;
+      }
+      throw wordpressError(error, `save the ${taxonomy === "tags" ? "tag" : "category"} "${name}"`);
+    }
+  }
+  return Array.from(new Set(ids));
+}
+
+async function savePost(
+  api: AxiosInstance,
+  post: Record<string, unknown>,
+  previousId: number | undefined
+): Promise<{ id: number; link: string; status: string }> {
+  if (previousId !== undefined) {
+    try {
+      return (await api.post(`/posts/${previousId}`, post)).data;
+    } catch (error) {
+      if (!isNotFound(error)) throw wordpressError(error, `update post ${previousId}`);
+    }
+  }
+  try {
+    return (await api.post("/posts", { status: "draft", ...post })).data;
+  } catch (error) {
+    throw wordpressError(error, "create the post");
+  }
+}
+
+export async function publishToWordPress(input: {
+  content: PublishContent;
+  status?: PublishBody["status"];
+  date?: string;
+  previous?: WordPressPublication;
+}): Promise<WordPressPublication> {
+  const config = wordpressConfig();
+  const api = axios.create({
+    baseURL: `${config.siteUrl}/wp-json/wp/v2`,
+    auth: { username: config.username, password: config.password },
+    timeout: 30000,
+    maxBodyLength: 50 * 1024 * 1024
+  });
+  const { article, seo, imageSet, discoverySchema } = input.content;
+  const previous = input.previous?.siteUrl === config.siteUrl ? input.previous : undefined;
+
+  const media: Record<string, WordPressMedia> = {};
+  const uploads = new Map<string, string>();
+  const figures: ArticleFigure[] = [];
+  for (const image of imageSet?.images ?? []) {
+    const uploaded = await uploadImage(api, image, previous?.media[image.id]);
+    if (!uploaded) continue;
+    media[image.id] = uploaded;
+    const variant = uploadVariant(image);
+    if (variant) uploads.set(variant.url, uploaded.url);
+    figures.push({
+      alt: image.alt,
+      caption: image.caption || undefined,
+      variants: variant ? [{ ...variant, url: uploaded.url }] : []
+    });
+  }
+  const featured = imageSet?.images[0] ? media[imageSet.images[0].id] : undefined;
+
+  const keywords = Array.from(new Set(seo.keywords.map((keyword) => keyword.trim()).filter(Boolean)));
+  const categories = await ensureTerms(api, "categories", keywords.slice(0, 1));
+  const tags = await ensureTerms(api, "tags", keywords);
+
+  const post = {
+    title: article.headline,
+    content: `${renderArticleBodyHtml(article, figures)}${jsonLdScript(discoverySchema, uploads)}`,
+    excerpt: seo.metaDescription,
+    ...(input.status ? { status: input.status } : {}),
+    ...(input.status === "future" && input.date
+      ? { date_gmt: new Date(input.date).toISOString().slice(0, 19) }
+      : {}),
+    ...(featured ? { featured_media: featured.id } : {}),
+    categories,
+    tags,
+    meta: seoMeta(seo, config.seoPlugin)
+  };
+
+  const saved = await savePost(api, post, previous?.postId);
+
+  return {
+    siteUrl: config.siteUrl,
+    postId: saved.id,
+    link: saved.link,
+    status: saved.status,
+    date: saved.status === "future" ? (input.status === "future" ? input.date : previous?.date) : undefined,
+    featuredMediaId: featured?.id,
+    media,
+    categories,
+    tags,
+    seoPlugin: config.seoPlugin,
+    publishedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,212 @@
+import http from "http";
+import type { AddressInfo } from "net";
+
+export interface MockWordPressPost {
+  id: number;
+  title: string;
+  content: string;
+  excerpt: string;
+  status: string;
+  date_gmt?: string;
+  featured_media: number;
+  categories: number[];
+  tags: number[];
+  meta: Record<string, string>;
+  link: string;
+}
+
+export interface MockWordPressMedia {
+  id: number;
+  source_url: string;
+  mime_type: string;
+  alt_text: string;
+  caption: string;
+  bytes: number;
+}
+
+export interface MockWordPressServer {
+  url: string;
+  posts: Map<number, MockWordPressPost>;
+  media: Map<number, MockWordPressMedia>;
+  terms: { tags: Map<number, string>; categories: Map<number, string> };
+  requests: Array<{ method: string; path: string }>;
+  close: () => Promise<void>;
+}
+
+const apiPrefix = "/wp-json/wp/v2";
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseJson(body: Buffer): Record<string, unknown> {
+  const value: unknown = JSON.parse(body.toString("utf8") || "{}");
+  return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function numbers(value: unknown): number[] {
+  return Array.isArray(value) ? value.filter((entry): entry is number => typeof entry === "number") : [];
+}
+
+export function startWordPressMockServer(
+  credentials: { username: string; password: string },
+  port = 0
+): Promise<MockWordPressServer> {
+  const posts = new Map<number, MockWordPressPost>();
+  const media = new Map<number, MockWordPressMedia>();
+  const terms = { tags: new Map<number, string>(), categories: new Map<number, string>() };
+  const requests: MockWordPressServer["requests"] = [];
+  const expectedAuth = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64")}`;
+  let nextId = 1;
+
+  const server = http.createServer(async (req, res) => {
+    const origin = `http://${req.headers.host}`;
+    const url = new URL(req.url ?? "/", origin);
+    const method = req.method ?? "GET";
+    requests.push({ method, path: url.pathname });
+    try {
+      if (!url.pathname.startsWith(apiPrefix)) {
+        send(res, 404, { code: "rest_no_route", message: "No route was found." });
+        return;
+      }
+      if (req.headers.authorization !== expectedAuth) {
+        send(res, 401, { code: "rest_not_logged_in", message: "You are not currently logged in." });
+        return;
+      }
+      const route = url.pathname.slice(apiPrefix.length);
+      const body = await readBody(req);
+
+      if (method === "POST" && route === "/media") {
+        const filename = /filename="?([^";]+)"?/.exec(req.headers["content-disposition"] ?? "")?.[1];
+        if (!filename || body.length === 0) {
+          send(res, 400, { code: "rest_upload_no_data", message: "No data supplied." });
+          return;
+        }
+        const item: MockWordPressMedia = {
+          id: nextId++,
+          source_url: `${origin}/wp-content/uploads/${filename}`,
+          mime_type: req.headers["content-type"] ?? "application/octet-stream",
+          alt_text: "",
+          caption: "",
+          bytes: body.length
+        };
+        media.set(item.id, item);
+        send(res, 201, item);
+        return;
+      }
+
+      const mediaMatch = /^\/media\/(\d+)$/.exec(route);
+      if (method === "POST" && mediaMatch) {
+        const item = media.get(Number(mediaMatch[1]));
+        if (!item) {
+          send(res, 404, { code: "rest_post_invalid_id", message: "Invalid post ID." });
+          return;
+        }
+        const fields = parseJson(body);
+        if (typeof fields.alt_text === "string") item.alt_text = fields.alt_text;
+        if (typeof fields.caption === "string") item.caption = fields.caption;
+        send(res, 200, item);
+        return;
+      }
+
+      const termMatch = /^\/(tags|categories)$/.exec(route);
+      if (termMatch) {
+        const taxonomy = terms[termMatch[1] as "tags" | "categories"];
+        if (method === "GET") {
+          const search = (url.searchParams.get("search") ?? "").toLowerCase();
+          send(
+            res,
+            200,
+            Array.from(taxonomy, ([id, name]) => ({ id, name })).filter((term) =>
+              term.name.toLowerCase().includes(search)
+            )
+          );
+          return;
+        }
+        if (method === "POST") {
+          const name = String(parseJson(body).name ?? "").trim();
+          const existing = Array.from(taxonomy).find(([, term]) => term.toLowerCase() === name.toLowerCase());
+          if (existing) {
+            send(res, 400, {
+              code: "term_exists",
+              message: "A term with the name provided already exists.",
+              data: { status: 400, term_id: existing[0] }
+            });
+            return;
+          }
+          const id = nextId++;
+          taxonomy.set(id, name);
+          send(res, 201, { id, name });
+          return;
+        }
+      }
+
+      const postMatch = /^\/posts(?:\/(\d+))?$/.exec(route);
+      if (postMatch) {
+        const id = postMatch[1] ? Number(postMatch[1]) : undefined;
+        const existing = id === undefined ? undefined : posts.get(id);
+        if (id !== undefined && !existing) {
+          send(res, 404, { code: "rest_post_invalid_id", message: "Invalid post ID." });
+          return;
+        }
+        if (method === "GET" && existing) {
+          send(res, 200, existing);
+          return;
+        }
+        if (method === "POST") {
+          const fields = parseJson(body);
+          if (fields.status === "future" && typeof fields.date_gmt !== "string") {
+            send(res, 400, { code: "rest_invalid_param", message: "Scheduled posts need date_gmt." });
+            return;
+          }
+          const postId = existing?.id ?? nextId++;
+          const post: MockWordPressPost = {
+            id: postId,
+            title: String(fields.title ?? existing?.title ?? ""),
+            content: String(fields.content ?? existing?.content ?? ""),
+            excerpt: String(fields.excerpt ?? existing?.excerpt ?? ""),
+            status: String(fields.status ?? existing?.status ?? "draft"),
+            date_gmt: typeof fields.date_gmt === "string" ? fields.date_gmt : existing?.date_gmt,
+            featured_media:
+              typeof fields.featured_media === "number" ? fields.featured_media : existing?.featured_media ?? 0,
+            categories: "categories" in fields ? numbers(fields.categories) : existing?.categories ?? [],
+            tags: "tags" in fields ? numbers(fields.tags) : existing?.tags ?? [],
+            meta: { ...existing?.meta, ...(fields.meta as Record<string, string> | undefined) },
+            link: `${origin}/?p=${postId}`
+          };
+          posts.set(postId, post);
+          send(res, existing ? 200 : 201, post);
+          return;
+        }
+      }
+
+      send(res, 404, { code: "rest_no_route", message: "No route was found matching the URL and request method." });
+    } catch (error) {
+      send(res, 400, { code: "rest_invalid_json", message: error instanceof Error ? error.message : "Bad request." });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const { port: bound } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${bound}`,
+        posts,
+        media,
+        terms,
+        requests,
+        close: () => new Promise((done, fail) => server.close((error) => (error ? fail(error) : done())))
+      });
+    });
+  });
+}
@@ -0,0 +1,190 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import path from "path";
+import { test } from "node:test";
+import { extractProductData, type ExtractionReport, type ProductData } from "@/server/scraper";
+
+interface ExtractorCase {
+  fixture: string;
+  url: string;
+  product: Omit<ProductData, "sourceUrl">;
+  report: Pick<ExtractionReport, "extractor" | "structuredDataFields" | "fields" | "fallbackFields">;
+}
+
+const cases: ExtractorCase[] = [
+  {
+    fixture: "amazon.html",
+    url: "https://www.amazon.com.br/dp/B0ACME0X20",
+    product: {
+      canonicalUrl: "https://www.amazon.com.br/dp/B0ACME0X20",
+      title: "Fone de Ouvido Bluetooth AcmeSound X2 com Cancelamento de Ruído",
+      description: "O AcmeSound X2 combina som equilibrado, cancelamento de ruído e bateria para a semana inteira.",
+      price: "R$ 1.299,90",
+      brand: "AcmeSound",
+      images: [
+        "https://m.media-amazon.com/images/I/acme-x2-1500.jpg",
+        "https://m.media-amazon.com/images/I/acme-x2-679.jpg"
+      ],
+      highlights: [
+        "Cancelamento ativo de ruído com três modos",
+        "Bateria de até 40 horas com o estojo",
+        "Bluetooth 5.3 com conexão multiponto"
+      ],
+      specifications: {
+        Fabricante: "AcmeSound",
+        "Número do modelo": "X2-BK",
+        "Peso do produto": "250 g",
+        Conectividade: "Bluetooth 5.3"
+      }
+    },
+    report: {
+      extractor: "amazon",
+      structuredDataFields: ["canonicalUrl"],
+      fields: ["title", "description", "price", "brand", "images", "highlights", "specifications"],
+      fallbackFields: []
+    }
+  },
+  {
+    fixture: "mercadoLivre.html",
+    url: "https://produto.mercadolivre.com.br/MLB-1234567890-fone-acmesound-x2",
+    product: {
+      title: "Fone De Ouvido Bluetooth Acmesound X2",
+      brand: "AcmeSound",
+      price: "1199.9",
+      currency: "BRL",
+      availability: "https://schema.org/InStock",
+      offers: [{ price: "1199.9", priceCurrency: "BRL", availability: "https://schema.org/InStock" }],
+      sku: "MLB1234567890",
+      aggregateRating: { ratingValue: 4.7, reviewCount: 312 },
+      canonicalUrl: "https://produto.mercadolivre.com.br/MLB-1234567890-fone-acmesound-x2",
+      description: "Fone sem fio com cancelamento de ruído, estojo de carga e garantia de 12 meses.",
+      images: [
+        "https://http2.mlstatic.com/D_NQ_NP_acme-x2-1-F.webp",
+        "https://http2.mlstatic.com/D_NQ_NP_acme-x2-2-F.webp"
+      ],
+      highlights: ["Cancelamento ativo de ruído.", "Autonomia de 40 horas."],
+      specifications: { Marca: "AcmeSound", Modelo: "X2", "Versão do Bluetooth": "5.3" }
+    },
+    report: {
+      extractor: "mercadoLivre",
+      structuredDataFields: [
+        "title",
+        "brand",
+        "price",
+        "currency",
+        "availability",
+        "offers",
+        "sku",
+        "aggregateRating",
+        "canonicalUrl"
+      ],
+      fields: ["description", "images", "highlights", "specifications"],
+      fallbackFields: []
+    }
+  },
+  {
+    fixture: "shopee.html",
+    url: "https://shopee.com.br/Fone-Bluetooth-AcmeSound-X2-i.123.456",
+    product: {
+      title: "Fone Bluetooth AcmeSound X2 Cancelamento de Ruído",
+      description: "Fone sem fio com cancelamento de ruído ativo, estojo de carga USB-C e 40 horas de bateria.",
+      price: "1099.90",
+      brand: "AcmeSound",
+      images: ["https://down-br.img.susercontent.com/file/br-acme-x2-main"],
+      specifications: { Marca: "AcmeSound", "Tipo de Conexão": "Bluetooth", Garantia: "12 meses" },
+      currency: "BRL"
+    },
+    report: {
+      extractor: "shopee",
+      structuredDataFields: [],
+      fields: ["title", "description", "price", "brand", "images", "specifications"],
+      fallbackFields: ["currency"]
+    }
+  },
+  {
+    fixture: "magalu.html",
+    url: "https://www.magazineluiza.com.br/fone-acmesound-x2/p/abc123/",
+    product: {
+      title: "Fone de Ouvido Bluetooth AcmeSound X2 Preto",
+      description: "Com o AcmeSound X2 você ouve suas músicas sem distrações, do trajeto ao trabalho.",
+      price: "R$ 1.149,00",
+      brand: "AcmeSound",
+      images: [
+        "https://a-static.mlcdn.com.br/800x560/acme-x2-preto/01.jpg",
+        "https://a-static.mlcdn.com.br/800x560/acme-x2-preto/02.jpg"
+      ],
+      highlights: ["Cancelamento de ruído ativo", "Até 40 horas de bateria"],
+      specifications: { Marca: "AcmeSound", Cor: "Preto", Peso: "250 g" }
+    },
+    report: {
+      extractor: "magalu",
+      structuredDataFields: [],
+      fields: ["title", "description", "price", "brand", "images", "highlights", "specifications"],
+      fallbackFields: []
+    }
+  },
+  {
+    fixture: "salesPage.html",
+    url: "https://pay.hotmart.com/F12345678X",
+    product: {
+      title: "Curso Fotografia com Celular: do Básico ao Profissional",
+      description: "Aprenda a fotografar com o celular em 30 aulas práticas.",
+      price: "R$ 497,00",
+      brand: "Marina Lopes",
+      images: ["https://static-media.hotmart.com/course-cover-fotografia.jpg"],
+      highlights: ["Composição e luz natural", "Edição no próprio celular", "Fotos de produto para vender mais"]
+    },
+    report: {
+      extractor: "salesPage",
+      structuredDataFields: [],
+      fields: ["title", "description", "price", "brand", "images", "highlights"],
+      fallbackFields: []
+    }
+  },
+  {
+    fixture: "generic.html",
+    url: "https://loja.example.com/produtos/cafeteira-brava",
+    product: {
+      title: "Cafeteira Expresso Brava 20 bar",
+      description: "Cafeteira expresso com bomba de 20 bar, vaporizador de leite e reservatório de 1,2 L.",
+      brand: "Brava",
+      price: "849.90",
+      currency: "BRL",
+      availability: "https://schema.org/InStock",
+      offers: [{ price: "849.90", priceCurrency: "BRL", availability: "https://schema.org/InStock" }],
+      sku: "BRV-20-INOX",
+      specifications: { Pressão: "20 bar", Reservatório: "1,2 L" },
+      canonicalUrl: "https://loja.example.com/produtos/cafeteira-brava",
+      images: ["https://loja.example.com/media/cafeteira-brava-1200.jpg"],
+      highlights: ["Painel em aço inox", "Vaporizador para cappuccino"]
+    },
+    report: {
+      extractor: "generic",
+      structuredDataFields: [
+        "title",
+        "description",
+        "brand",
+        "price",
+        "currency",
+        "availability",
+        "offers",
+        "sku",
+        "specifications",
+        "canonicalUrl"
+      ],
+      fields: ["images", "highlights"],
+      fallbackFields: []
+    }
+  }
+];
+
+for (const { fixture, url, product, report } of cases) {
+  test(`extracts ${report.extractor} product data from ${fixture}`, async () => {
+    const html = await fs.readFile(path.join(process.cwd(), "tests", "fixtures", "extractors", fixture), "utf8");
+    const result = extractProductData(html, url);
+
+    // Compare the JSON form, which is what the API returns and the scrape cache stores.
+    assert.deepEqual(JSON.parse(JSON.stringify(result.product)), { ...product, sourceUrl: url });
+    assert.deepEqual(result.extraction, report);
+  });
+}
@@ -0,0 +1,16 @@
+(function () {
+  var product = {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    name: "Brava Espresso Machine",
+    description: "Brava espresso machine with a 20 bar pump, steam wand, and 1.2 L water tank.",
+    brand: { "@type": "Brand", name: "Brava" },
+    offers: { "@type": "Offer", price: "249.90", priceCurrency: "USD", availability: "https://schema.org/InStock" }
+  };
+  var script = document.createElement("script");
+  script.type = "application/ld+json";
+  script.textContent = JSON.stringify(product);
+  document.head.appendChild(script);
+  document.getElementById("app").innerHTML =
+    "<h1>" + product.name + "</h1><p>" + product.description + "</p><strong>$249.90</strong>";
+})();
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+
+export interface FixtureServer {
+  url: string;
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+const pagesDir = path.join(process.cwd(), "tests", "fixtures", "pages");
+
+const routes: Record<string, { file: string; type: string }> = {
+  "/static-product": { file: "static-product.html", type: "text/html; charset=utf-8" },
+  "/js-product": { file: "js-product.html", type: "text/html; charset=utf-8" },
+  "/private/js-product": { file: "js-product.html", type: "text/html; charset=utf-8" },
+  "/js-product.js": { file: "js-product.js", type: "text/javascript; charset=utf-8" }
+};
+
+const assets: Record<string, { body: string; type: string }> = {
+  "/styles.css": { body: "body { font-family: serif; }", type: "text/css" },
+  "/hero.jpg": { body: "not really a jpeg", type: "image/jpeg" },
+  "/robots.txt": { body: "User-agent: *\nDisallow: /private\n", type: "text/plain" }
+};
+
+export function startFixtureServer(): Promise<FixtureServer> {
+  const requests: string[] = [];
+  const server = http.createServer(async (req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://fixtures").pathname;
+    requests.push(pathname);
+    if (pathname === "/hang") {
+      return;
+    }
+    const route = routes[pathname];
+    if (route) {
+      res.writeHead(200, { "Content-Type": route.type });
+      res.end(await fs.readFile(path.join(pagesDir, route.file)));
+      return;
+    }
+    const asset = assets[pathname];
+    if (asset) {
+      res.writeHead(200, { "Content-Type": asset.type });
+      res.end(asset.body);
+      return;
+    }
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found");
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () =>
+          new Promise((done, fail) => {
+            server.closeAllConnections();
+            server.close((error) => (error ? fail(error) : done()));
+          })
+      });
+    });
+  });
+}
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { generateImage, resolveImageOptions } from "@/server/imageGen";
+import { startImageStubServer, type ImageStubServer } from "@/server/imageGen/stubServer";
+import { draftFixtures } from "@/server/llm/fixtures";
+import { regenerate, regenerateRequestSchema } from "@/server/regenerate";
+
+const product = { sourceUrl: "https://loja.example.com/produtos/cafeteira-brava", title: "Cafeteira Brava" };
+let stub: ImageStubServer;
+let dataDir: string;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "image-gen-test-"));
+  process.env.DATA_DIR = dataDir;
+  process.env.SCRAPER_ALLOW_PRIVATE_HOSTS = "true";
+  process.env.LLM_PROVIDER = "mock";
+  stub = await startImageStubServer();
+  process.env.IMAGE_STUB_URL = stub.url;
+});
+
+after(async () => {
+  await stub.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+function generate(prompt: string, index = 0, options: Parameters<typeof resolveImageOptions>[0] = {}) {
+  return generateImage({
+    prompt,
+    index,
+    product,
+    style: "studio lighting",
+    options: resolveImageOptions({ provider: "stub", ...options })
+  });
+}
+
+test("returns generated images from the stub provider", async () => {
+  const image = await generate("Cafeteira Brava on a kitchen counter");
+
+  assert.equal(image.status, "generated");
+  assert.equal(image.provider, "stub");
+  assert.ok(image.url.startsWith(`${stub.url}/images/`));
+  assert.deepEqual([image.width, image.height], [1200, 900]);
+  assert.equal(typeof image.seed, "number");
+});
+
+test("passes the seed and negative prompt through to the provider", async () => {
+  stub.requests.length = 0;
+  const image = await generate("Cafeteira Brava close-up", 1, { seed: 42, negativePrompt: "text, watermark" });
+
+  assert.deepEqual(stub.requests, [
+    { prompt: "Cafeteira Brava close-up", width: 1200, height: 900, seed: 43, negativePrompt: "text, watermark" }
+  ]);
+  assert.equal(image.seed, 43);
+  assert.equal(image.negativePrompt, "text, watermark");
+  assert.equal(image.url, `${stub.url}/images/43-1200x900.png`);
+});
+
+test("falls back to a placeholder when the provider has no credentials", async () => {
+  delete process.env.IMAGE_STUB_URL;
+  stub.requests.length = 0;
+  try {
+    const image = await generate("Cafeteira Brava hero shot");
+
+    assert.equal(image.status, "placeholder");
+    assert.match(image.url, /^https:\/\/placehold\.co\//);
+    assert.deepEqual(stub.requests, []);
+  } finally {
+    process.env.IMAGE_STUB_URL = stub.url;
+  }
+});
+
+test("marks provider errors as failed images", async () => {
+  const image = await generate("Cafeteira Brava [stub:fail]");
+
+  assert.equal(image.status, "failed");
+  assert.match(image.error ?? "", /500/);
+  assert.match(image.url, /^https:\/\/placehold\.co\/.*Failed/);
+});
+
+test("regenerates a single image and keeps failed images out of the JSON-LD", async () => {
+  const fixture = draftFixtures.en({ name: product.title, keywords: [], highlights: [], specifications: [] });
+  const failed = await generate("Cafeteira Brava [stub:fail]");
+  const original = await generate("Cafeteira Brava hero shot", 1);
+  const body = regenerateRequestSchema.parse({
+    request: {
+      productUrl: product.sourceUrl,
+      targetLocale: "en-US",
+      outlineStyle: "Hands-on review",
+      tone: "Friendly",
+      callToAction: "Check the price",
+      geoPersona: "Home baristas",
+      affiliateLinks: {},
+      imageOptions: { provider: "stub" }
+    },
+    target: { type: "image", index: 1, prompt: "Cafeteira Brava steaming milk" },
+    current: {
+      article: fixture.article,
+      seo: fixture.seo,
+      reviews: fixture.reviews,
+      product,
+      images: [failed, original],
+      spellcheck: { corrected: "", corrections: [], flags: [], locale: "en-US", dictionary: null, mode: "rewrite" },
+      discoverySchema: null
+    }
+  });
+
+  const result = await regenerate(body);
+  const images = result.patch.images ?? [];
+
+  assert.equal(images.length, 2);
+  assert.equal(images[0].url, failed.url);
+  assert.equal(images[1].status, "generated");
+  assert.equal(images[1].prompt, "Cafeteira Brava steaming milk");
+  assert.notEqual(images[1].url, original.url);
+  assert.deepEqual(result.patch.imageSet?.images.map((image) => image.sourceUrl), [images[1].url]);
+  const schema = JSON.stringify(result.patch.discoverySchema);
+  assert.ok(schema.includes(images[1].url));
+  assert.ok(!schema.includes("placehold.co"));
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { after, before, test } from "node:test";
+import { imageFile, processImages, type ImageSet } from "@/server/images";
+
+let server: http.Server;
+let baseUrl: string;
+let dataDir: string;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "images-test-"));
+  process.env.DATA_DIR = dataDir;
+  process.env.SCRAPER_ALLOW_PRIVATE_HOSTS = "true";
+  const photo = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: "#b5651d" } })
+      .png()
+      .toBuffer();
+  const photos: Record<string, Buffer> = {
+    "/photo.png": await photo(600, 500),
+    "/photo-large.png": await photo(1800, 1500)
+  };
+  server = http.createServer((req, res) => {
+    res.writeHead(200, { "Content-Type": "image/png" });
+    res.end(photos[req.url ?? ""]);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+function processPhoto(file: string) {
+  return processImages({
+    candidates: [{ url: `${baseUrl}/${file}`, source: "product" }],
+    product: { sourceUrl: "https://loja.example.com/produtos/cafeteira-brava", title: "Cafeteira Brava" },
+    locale: "pt-BR",
+    llm: { provider: "mock", model: "mock", temperature: 0 }
+  });
+}
+
+async function assertFilesMatch(set: ImageSet) {
+  for (const variant of set.images[0].variants) {
+    const metadata = await sharp(imageFile(path.basename(variant.url))).metadata();
+    assert.deepEqual([metadata.width, metadata.height], [variant.width, variant.height]);
+  }
+}
+
+test("crops small sources without upscaling and records the real size", async () => {
+  const set = await processPhoto("photo.png");
+
+  assert.deepEqual(set.dropped, []);
+  const sizes = set.images[0].variants
+    .filter((variant) => variant.format === "webp")
+    .map(({ aspectRatio, width, height }) => ({ aspectRatio, width, height }));
+  assert.deepEqual(sizes, [
+    { aspectRatio: "16:9", width: 600, height: 338 },
+    { aspectRatio: "4:3", width: 600, height: 450 },
+    { aspectRatio: "1:1", width: 500, height: 500 }
+  ]);
+  await assertFilesMatch(set);
+});
+
+test("keeps separate files for copies of the same image at different sizes", async () => {
+  const small = await processPhoto("photo.png");
+  const large = await processPhoto("photo-large.png");
+
+  assert.equal(large.images[0].id, small.images[0].id);
+  assert.deepEqual(
+    large.images[0].variants.filter((variant) => variant.format === "webp").map(({ width, height }) => [width, height]),
+    [
+      [1200, 675],
+      [1200, 900],
+      [1200, 1200]
+    ]
+  );
+  await assertFilesMatch(small);
+  await assertFilesMatch(large);
+});
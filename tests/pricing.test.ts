@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { normalizePrice, parsePriceAmount, productPriceFormat } from "@/server/pricing";
+
+test("parses structured-data prices as plain decimals", () => {
+  assert.equal(parsePriceAmount("12.500", "structured"), 12.5);
+  assert.equal(parsePriceAmount("1199.9", "structured"), 1199.9);
+  assert.equal(parsePriceAmount("R$ 1.299,90", "structured"), 1299.9);
+});
+
+test("keeps the thousands heuristic for scraped display prices", () => {
+  assert.equal(parsePriceAmount("R$ 12.500"), 12500);
+  assert.equal(parsePriceAmount("R$ 1.299,90"), 1299.9);
+  assert.equal(parsePriceAmount("$1,299.00"), 1299);
+});
+
+test("treats the product price as structured when it came from an offer", () => {
+  const structured = { price: "12.500", currency: "EUR", offers: [{ price: "12.500", priceCurrency: "EUR" }] };
+  const scraped = { price: "€ 12.500", currency: "EUR" };
+
+  assert.equal(productPriceFormat(structured), "structured");
+  assert.equal(productPriceFormat(scraped), "display");
+  assert.deepEqual(
+    normalizePrice(structured.price, { currencyHint: "EUR", locale: "es-ES", format: productPriceFormat(structured) }),
+    { amount: 12.5, currency: "EUR" }
+  );
+  assert.deepEqual(
+    normalizePrice(scraped.price, { currencyHint: "EUR", locale: "es-ES", format: productPriceFormat(scraped) }),
+    { amount: 12500, currency: "EUR" }
+  );
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { pendingFlags, rebuildArticle } from "@/components/SpellCheckReview";
+import { draftFixtures } from "@/server/llm/fixtures";
+import { regenerate, regenerateRequestSchema } from "@/server/regenerate";
+import type { SpellCheckFlag } from "@/server/spellcheck";
+import { applyPlainText, articleToPlainText, type Article } from "@/utils/article";
+
+process.env.LLM_PROVIDER = "mock";
+
+function flagFor(text: string, original: string, candidates: string[]): SpellCheckFlag {
+  const start = text.indexOf(original);
+  return { start, end: start + original.length, original, candidates };
+}
+
+test("keeps spell-check decisions in untouched sections when a section is regenerated", async () => {
+  const fixture = draftFixtures.en({ name: "Brava", keywords: [], highlights: [], specifications: [] });
+  const [intro, features, ...rest] = fixture.article.sections;
+  const article: Article = {
+    ...fixture.article,
+    sections: [
+      { ...intro, heading: "Does the Brava wrk?" },
+      { ...features, heading: "Old features" },
+      ...rest.map((section, index) => (index === 0 ? { ...section, heading: "Thier pros and cons" } : section))
+    ]
+  };
+  const corrected = articleToPlainText(article);
+  const flags = [flagFor(corrected, "wrk", ["work"]), flagFor(corrected, "Thier", ["Their"])];
+
+  const decisions = ["work", null];
+  const reviewedText = rebuildArticle(corrected, flags, decisions);
+  const body = regenerateRequestSchema.parse({
+    request: {
+      productUrl: "https://loja.example.com/produtos/cafeteira-brava",
+      targetLocale: "en-US",
+      outlineStyle: "Hands-on review",
+      tone: "Friendly",
+      callToAction: "Check the price",
+      geoPersona: "Home baristas",
+      spellcheckMode: "suggest",
+      affiliateLinks: {}
+    },
+    target: { type: "section", index: 1 },
+    current: {
+      article: applyPlainText(article, reviewedText),
+      seo: fixture.seo,
+      reviews: fixture.reviews,
+      product: { sourceUrl: "https://loja.example.com/produtos/cafeteira-brava", title: "Brava" },
+      images: [],
+      spellcheck: {
+        corrected: reviewedText,
+        corrections: [],
+        flags: pendingFlags(flags, decisions),
+        locale: "en-US",
+        dictionary: "en-US",
+        mode: "suggest"
+      },
+      discoverySchema: null
+    }
+  });
+
+  const { patch } = await regenerate(body);
+  const sections = patch.article?.sections ?? [];
+  const spellcheck = patch.spellcheck;
+
+  assert.equal(sections[0].heading, "Does the Brava work?");
+  assert.equal(sections[1].heading, features.heading);
+  assert.equal(sections[2].heading, "Thier pros and cons");
+  assert.ok(spellcheck);
+  assert.equal(spellcheck.corrected, articleToPlainText(patch.article as Article));
+  assert.ok(spellcheck.flags.some((flag) => flag.original === "Thier"));
+  for (const flag of spellcheck.flags) {
+    assert.equal(spellcheck.corrected.slice(flag.start, flag.end), flag.original);
+  }
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import { startGuardedProxy } from "@/server/fetcher";
+import { renderPage } from "@/server/renderer";
+import { scrapeProductData } from "@/server/scraper";
+import { startFixtureServer, type FixtureServer } from "./helpers/fixtureServer";
+
+const chromiumPath = process.env.CHROMIUM_PATH;
+let fixtures: FixtureServer;
+let dataDir: string;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "renderer-test-"));
+  process.env.DATA_DIR = dataDir;
+  process.env.SCRAPER_ALLOW_PRIVATE_HOSTS = "true";
+  fixtures = await startFixtureServer();
+});
+
+after(async () => {
+  await fixtures.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+async function withEnv<T>(values: Record<string, string | undefined>, run: () => Promise<T>): Promise<T> {
+  const previous = Object.fromEntries(Object.keys(values).map((name) => [name, process.env[name]]));
+  const apply = (entries: Record<string, string | undefined>) =>
+    Object.entries(entries).forEach(([name, value]) =>
+      value === undefined ? delete process.env[name] : (process.env[name] = value)
+    );
+  apply(values);
+  try {
+    return await run();
+  } finally {
+    apply(previous);
+  }
+}
+
+function proxyStatus(proxyUrl: string, options: http.RequestOptions): Promise<number> {
+  const proxy = new URL(proxyUrl);
+  return new Promise((resolve, reject) => {
+    const request = http.request({ ...options, host: proxy.hostname, port: proxy.port });
+    request.on("response", (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("connect", (response, socket) => {
+      socket.destroy();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+test("keeps static pages on the static path and caches them", async () => {
+  const url = `${fixtures.url}/static-product`;
+  const first = await scrapeProductData(url);
+
+  assert.equal(first.extraction.renderMode, "static");
+  assert.equal(first.extraction.renderError, undefined);
+  assert.equal(first.product.price, "249.90");
+  assert.equal((await scrapeProductData(url)).extraction.cached, true);
+});
+
+test("reports a render error for thin pages without caching it", async () => {
+  const url = `${fixtures.url}/js-product?attempt=no-chromium`;
+  const [first, second] = await withEnv({ CHROMIUM_PATH: undefined }, async () => [
+    await scrapeProductData(url),
+    await scrapeProductData(url)
+  ]);
+
+  assert.equal(first.extraction.renderMode, "static");
+  assert.match(first.extraction.renderError ?? "", /CHROMIUM_PATH/);
+  assert.equal(first.product.price, undefined);
+  assert.equal(second.extraction.cached, undefined);
+});
+
+test("checks robots.txt before launching the browser", async () => {
+  await assert.rejects(renderPage(`${fixtures.url}/private/js-product`, { respectRobots: true }), /robots\.txt/);
+  assert.ok(!fixtures.requests.includes("/private/js-product"));
+});
+
+test("refuses private targets in the browser proxy", async () => {
+  const proxy = await startGuardedProxy();
+  try {
+    await withEnv({ SCRAPER_ALLOW_PRIVATE_HOSTS: undefined }, async () => {
+      const target = new URL(fixtures.url);
+      assert.equal(await proxyStatus(proxy.url, { path: `${fixtures.url}/static-product` }), 403);
+      assert.equal(await proxyStatus(proxy.url, { method: "CONNECT", path: `localhost:${target.port}` }), 502);
+    });
+  } finally {
+    await proxy.close();
+  }
+});
+
+test("renders JavaScript pages headlessly and blocks heavy resources", { skip: !chromiumPath }, async () => {
+  fixtures.requests.length = 0;
+  const result = await scrapeProductData(`${fixtures.url}/js-product`);
+
+  assert.equal(result.extraction.renderMode, "headless");
+  assert.equal(result.extraction.renderError, undefined);
+  assert.equal(result.product.price, "249.90");
+  assert.equal(result.product.currency, "USD");
+  assert.ok(result.product.description);
+  assert.ok(fixtures.requests.includes("/js-product.js"));
+  assert.ok(!fixtures.requests.includes("/styles.css"));
+  assert.ok(!fixtures.requests.includes("/hero.jpg"));
+});
+
+test("gives up on pages that never finish loading", { skip: !chromiumPath }, async () => {
+  await withEnv({ HEADLESS_TIMEOUT_MS: "1500" }, async () => {
+    await assert.rejects(renderPage(`${fixtures.url}/hang`), /timeout|timed out/i);
+  });
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { after, before, test } from "node:test";
+import { imageFile, imageUrl, type ImageSet } from "@/server/images";
+import { draftFixtures } from "@/server/llm/fixtures";
+import { publishRequestSchema, publishToWordPress, type PublishContent } from "@/server/wordpress";
+import { startWordPressMockServer, type MockWordPressServer } from "@/server/wordpress/mockServer";
+
+const credentials = { username: "editor", password: "abcd efgh ijkl mnop" };
+const file = "0123456789abcdef-16x9.webp";
+let wordpress: MockWordPressServer;
+let dataDir: string;
+let content: PublishContent;
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "wordpress-test-"));
+  process.env.DATA_DIR = dataDir;
+  await fs.mkdir(path.dirname(imageFile(file)), { recursive: true });
+  await sharp({ create: { width: 1200, height: 675, channels: 3, background: "#b5651d" } })
+    .webp()
+    .toFile(imageFile(file));
+
+  wordpress = await startWordPressMockServer(credentials);
+  process.env.WORDPRESS_URL = wordpress.url;
+  process.env.WORDPRESS_USERNAME = credentials.username;
+  process.env.WORDPRESS_APP_PASSWORD = credentials.password;
+
+  const fixture = draftFixtures.en({ name: "Brava Espresso Machine", keywords: [], highlights: [], specifications: [] });
+  const imageSet: ImageSet = {
+    images: [
+      {
+        id: "0123456789abcdef",
+        source: "product",
+        sourceUrl: "https://shop.example.com/media/brava.jpg",
+        alt: "Brava espresso machine on a kitchen counter",
+        caption: "The Brava with its steam wand attached.",
+        width: 1200,
+        height: 675,
+        variants: [{ aspectRatio: "16:9", format: "webp", url: imageUrl(file), width: 1200, height: 675 }]
+      }
+    ],
+    dropped: []
+  };
+  content = {
+    article: fixture.article,
+    seo: { ...fixture.seo, keywords: ["Espresso Machines", "Brava", "espresso machines"] },
+    imageSet,
+    discoverySchema: { "@context": "https://schema.org", "@type": "Article", image: [imageUrl(file)] }
+  };
+});
+
+after(async () => {
+  await wordpress.close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+function uploads(): number {
+  return wordpress.requests.filter((request) => request.method === "POST" && request.path.endsWith("/media")).length;
+}
+
+test("creates a draft with media, terms, Yoast meta, and the JSON-LD", async () => {
+  wordpress.terms.tags.set(100, "Brava");
+  const publication = await publishToWordPress({ content });
+  const post = wordpress.posts.get(publication.postId);
+  const media = wordpress.media.get(publication.featuredMediaId ?? 0);
+
+  assert.ok(post && media);
+  assert.equal(post.status, "draft");
+  assert.equal(publication.status, "draft");
+  assert.equal(post.title, content.article.headline);
+  assert.equal(post.featured_media, media.id);
+  assert.equal(media.alt_text, "Brava espresso machine on a kitchen counter");
+  assert.equal(media.caption, "The Brava with its steam wand attached.");
+  assert.ok(post.content.includes(`<script type="application/ld+json">`));
+  assert.ok(post.content.includes(`"image":["${media.source_url}"]`));
+  assert.ok(!post.content.includes(imageUrl(file)));
+  assert.deepEqual(Array.from(wordpress.terms.categories.values()), ["Espresso Machines"]);
+  assert.deepEqual(publication.tags.map((id) => wordpress.terms.tags.get(id)), ["Espresso Machines", "Brava"]);
+  assert.ok(publication.tags.includes(100));
+  assert.equal(post.meta._yoast_wpseo_title, content.seo.title);
+  assert.equal(post.meta._yoast_wpseo_metadesc, content.seo.metaDescription);
+  assert.equal(post.meta._yoast_wpseo_focuskw, "Espresso Machines");
+});
+
+test("schedules posts with date_gmt and writes RankMath meta", async () => {
+  process.env.WORDPRESS_SEO_PLUGIN = "rankmath";
+  try {
+    const date = "2031-05-04T12:30:00-03:00";
+    const publication = await publishToWordPress({ content, status: "future", date });
+    const post = wordpress.posts.get(publication.postId);
+
+    assert.ok(post);
+    assert.equal(post.status, "future");
+    assert.equal(post.date_gmt, "2031-05-04T15:30:00");
+    assert.equal(publication.date, date);
+    assert.equal(publication.seoPlugin, "rankmath");
+    assert.equal(post.meta.rank_math_title, content.seo.title);
+    assert.equal(post.meta.rank_math_focus_keyword, "Espresso Machines,Brava,espresso machines");
+    assert.equal(post.meta._yoast_wpseo_title, undefined);
+  } finally {
+    delete process.env.WORDPRESS_SEO_PLUGIN;
+  }
+});
+
+test("republishes to the same post, reuses media and terms, and keeps a live status", async () => {
+  const first = await publishToWordPress({ content });
+  const live = wordpress.posts.get(first.postId);
+  assert.ok(live);
+  live.status = "publish";
+  const uploadsBefore = uploads();
+  const termsBefore = wordpress.terms.tags.size + wordpress.terms.categories.size;
+
+  const edited = { ...content, article: { ...content.article, headline: "Brava Espresso Machine, Revisited" } };
+  const { status } = publishRequestSchema.parse({});
+  const second = await publishToWordPress({ content: edited, status, previous: first });
+  const post = wordpress.posts.get(second.postId);
+
+  assert.equal(second.postId, first.postId);
+  assert.equal(second.featuredMediaId, first.featuredMediaId);
+  assert.deepEqual(second.media, first.media);
+  assert.equal(uploads(), uploadsBefore);
+  assert.equal(wordpress.terms.tags.size + wordpress.terms.categories.size, termsBefore);
+  assert.deepEqual(second.tags, first.tags);
+  assert.equal(post?.title, "Brava Espresso Machine, Revisited");
+  assert.equal(post?.status, "publish");
+  assert.equal(second.status, "publish");
+});
@@ -19,3 +19,19 @@ declare module "dictionary-en" {
 
   export default function dictionary(callback: Callback): void;
 }
+
+declare module "dictionary-pt" {
+  import type { Dictionary } from "nspell";
+
+  type Callback = (error: Error | null, dictionary?: Dictionary) => void;
+
+  export default function dictionary(callback: Callback): void;
+}
+
+declare module "dictionary-es" {
+  import type { Dictionary } from "nspell";
+
+  type Callback = (error: Error | null, dictionary?: Dictionary) => void;
+
+  export default function dictionary(callback: Callback): void;
+}
@@ -0,0 +1,346 @@
+import { z } from "zod";
+
+const textSchema = z.string().min(1);
+
+const blockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("paragraph"), text: textSchema }),
+  z.object({ type: z.literal("list"), ordered: z.boolean().optional().default(false), items: z.array(textSchema).min(1) }),
+  z.object({
+    type: z.literal("prosCons"),
+    prosLabel: z.string().optional().default("Pros"),
+    consLabel: z.string().optional().default("Cons"),
+    pros: z.array(textSchema),
+    cons: z.array(textSchema)
+  }),
+  z.object({
+    type: z.literal("faq"),
+    items: z.array(z.object({ question: textSchema, answer: textSchema })).min(1)
+  }),
+  z.object({
+    type: z.literal("specTable"),
+    rows: z.array(z.object({ label: textSchema, value: textSchema })).min(1)
+  }),
+  z.object({
+    type: z.literal("comparisonTable"),
+    columns: z.array(textSchema).min(2),
+    rows: z.array(z.object({ label: textSchema, values: z.array(textSchema) })).min(1)
+  }),
+  z.object({ type: z.literal("disclosure"), text: textSchema }),
+  z.object({
+    type: z.literal("cta"),
+    text: textSchema,
+    label: textSchema,
+    url: z.string().url().optional(),
+    platform: z.string().optional()
+  })
+]);
+
+const subsectionSchema = z.object({
+  heading: textSchema,
+  blocks: z.array(blockSchema)
+});
+
+export const sectionSchema = z.object({
+  kind: z.enum(["intro", "body", "verdict", "faq"]).optional().default("body"),
+  heading: textSchema,
+  blocks: z.array(blockSchema),
+  subsections: z.array(subsectionSchema).optional().default([])
+});
+
+export const articleSchema = z.object({
+  headline: textSchema,
+  sections: z.array(sectionSchema).min(1)
+});
+
+export type Article = z.infer<typeof articleSchema>;
+export type ArticleSection = z.infer<typeof sectionSchema>;
+export type ArticleBlock = z.infer<typeof blockSchema>;
+
+export interface ArticleFigure {
+  alt: string;
+  caption?: string;
+  variants: Array<{ aspectRatio: string; format: string; url: string; width: number; height: number }>;
+}
+
+export const articleFormatInstructions =
+  'The article field must be an object {headline, sections} where each section is {kind: "intro" | "body" | "verdict" | "faq", heading, blocks, subsections: [{heading, blocks}]}. ' +
+  'Blocks are one of {type: "paragraph", text}, {type: "list", ordered, items}, {type: "prosCons", prosLabel, consLabel, pros, cons}, ' +
+  '{type: "faq", items: [{question, answer}]}, {type: "specTable", rows: [{label, value}]}, {type: "cta", text, label, url, platform}. ' +
+  "Sections render as H2 and subsections as H3; write all labels in the target locale.";
+
+export function parseArticle(value: unknown): Article {
+  if (typeof value === "string") {
+    const paragraphs = value
+      .split(/\n+/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean);
+    return articleSchema.parse({
+      headline: paragraphs[0],
+      sections: [
+        {
+          kind: "intro",
+          heading: paragraphs[0],
+          blocks: paragraphs.slice(1).map((text) => ({ type: "paragraph", text }))
+        }
+      ]
+    });
+  }
+  return articleSchema.parse(value);
+}
+
+function mapBlockText(block: ArticleBlock, map: (text: string) => string): ArticleBlock {
+  switch (block.type) {
+    case "paragraph":
+      return { ...block, text: map(block.text) };
+    case "list":
+      return { ...block, items: block.items.map(map) };
+    case "prosCons":
+      return {
+        ...block,
+        prosLabel: map(block.prosLabel),
+        consLabel: map(block.consLabel),
+        pros: block.pros.map(map),
+        cons: block.cons.map(map)
+      };
+    case "faq":
+      return {
+        ...block,
+        items: block.items.map((item) => ({ question: map(item.question), answer: map(item.answer) }))
+      };
+    case "specTable":
+      return { ...block, rows: block.rows.map((row) => ({ label: map(row.label), value: map(row.value) })) };
+    case "comparisonTable":
+      return { ...block, rows: block.rows.map((row) => ({ label: map(row.label), values: row.values.map(map) })) };
+    case "disclosure":
+      return { ...block, text: map(block.text) };
+    case "cta":
+      return { ...block, text: map(block.text), label: map(block.label) };
+  }
+}
+
+function mapSectionText(section: ArticleSection, map: (text: string) => string): ArticleSection {
+  return {
+    ...section,
+    heading: map(section.heading),
+    blocks: section.blocks.map((block) => mapBlockText(block, map)),
+    subsections: section.subsections.map((subsection) => ({
+      heading: map(subsection.heading),
+      blocks: subsection.blocks.map((block) => mapBlockText(block, map))
+    }))
+  };
+}
+
+export function mapArticleText(article: Article, map: (text: string) => string): Article {
+  return {
+    headline: map(article.headline),
+    sections: article.sections.map((section) => mapSectionText(section, map))
+  };
+}
+
+function collectLines(map: (collect: (text: string) => string) => void): string {
+  const lines: string[] = [];
+  map((text) => {
+    lines.push(text.replace(/\s*\n\s*/g, " "));
+    return text;
+  });
+  return lines.join("\n");
+}
+
+export function articleToPlainText(article: Article): string {
+  return collectLines((collect) => mapArticleText(article, collect));
+}
+
+export function sectionToPlainText(section: ArticleSection): string {
+  return collectLines((collect) => mapSectionText(section, collect));
+}
+
+export function applyPlainText(article: Article, plainText: string): Article {
+  const lines = plainText.split("\n");
+  let index = 0;
+  return mapArticleText(article, (text) => lines[index++] ?? text);
+}
+
+export function applySectionPlainText(section: ArticleSection, plainText: string): ArticleSection {
+  const lines = plainText.split("\n");
+  let index = 0;
+  return mapSectionText(section, (text) => lines[index++] ?? text);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|");
+}
+
+function blockToMarkdown(block: ArticleBlock): string {
+  switch (block.type) {
+    case "paragraph":
+      return block.text;
+    case "list":
+      return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : "-"} ${item}`).join("\n");
+    case "prosCons":
+      return [
+        `**${block.prosLabel}**`,
+        ...block.pros.map((item) => `- ✅ ${item}`),
+        "",
+        `**${block.consLabel}**`,
+        ...block.cons.map((item) => `- ❌ ${item}`)
+      ].join("\n");
+    case "faq":
+      return block.items.map((item) => `**${item.question}**\n\n${item.answer}`).join("\n\n");
+    case "specTable":
+      return [
+        "| | |",
+        "| --- | --- |",
+        ...block.rows.map((row) => `| ${escapeMarkdownCell(row.label)} | ${escapeMarkdownCell(row.value)} |`)
+      ].join("\n");
+    case "comparisonTable":
+      return [
+        `| | ${block.columns.map(escapeMarkdownCell).join(" | ")} |`,
+        `| --- | ${block.columns.map(() => "---").join(" | ")} |`,
+        ...block.rows.map((row) => `| ${[row.label, ...row.values].map(escapeMarkdownCell).join(" | ")} |`)
+      ].join("\n");
+    case "disclosure":
+      return `*${block.text}*`;
+    case "cta": {
+      const action = block.url
+        ? `<a href="${escapeHtml(block.url)}" rel="sponsored nofollow">${escapeHtml(block.label)}</a>`
+        : `**${block.label}**`;
+      return `> ${block.text}\n>\n> ${action}`;
+    }
+  }
+}
+
+function blockToHtml(block: ArticleBlock): string {
+  switch (block.type) {
+    case "paragraph":
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case "list": {
+      const tag = block.ordered ? "ol" : "ul";
+      return `<${tag}>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</${tag}>`;
+    }
+    case "prosCons":
+      return [
+        '<div class="pros-cons">',
+        `<section class="pros"><h4>${escapeHtml(block.prosLabel)}</h4><ul>${block.pros
+          .map((item) => `<li>${escapeHtml(item)}</li>`)
+          .join("")}</ul></section>`,
+        `<section class="cons"><h4>${escapeHtml(block.consLabel)}</h4><ul>${block.cons
+          .map((item) => `<li>${escapeHtml(item)}</li>`)
+          .join("")}</ul></section>`,
+        "</div>"
+      ].join("");
+    case "faq":
+      return `<dl class="faq">${block.items
+        .map((item) => `<dt>${escapeHtml(item.question)}</dt><dd>${escapeHtml(item.answer)}</dd>`)
+        .join("")}</dl>`;
+    case "specTable":
+      return `<table class="specs"><tbody>${block.rows
+        .map((row) => `<tr><th scope="row">${escapeHtml(row.label)}</th><td>${escapeHtml(row.value)}</td></tr>`)
+        .join("")}</tbody></table>`;
+    case "comparisonTable":
+      return [
+        '<table class="comparison">',
+        `<thead><tr><td></td>${block.columns
+          .map((column) => `<th scope="col">${escapeHtml(column)}</th>`)
+          .join("")}</tr></thead>`,
+        `<tbody>${block.rows
+          .map(
+            (row) =>
+              `<tr><th scope="row">${escapeHtml(row.label)}</th>${row.values
+                .map((value) => `<td>${escapeHtml(value)}</td>`)
+                .join("")}</tr>`
+          )
+          .join("")}</tbody>`,
+        "</table>"
+      ].join("");
+    case "disclosure":
+      return `<aside class="disclosure"><p><small>${escapeHtml(block.text)}</small></p></aside>`;
+    case "cta": {
+      const action = block.url
+        ? `<a href="${escapeHtml(block.url)}" rel="sponsored nofollow">${escapeHtml(block.label)}</a>`
+        : `<strong>${escapeHtml(block.label)}</strong>`;
+      return `<aside class="cta"><p>${escapeHtml(block.text)}</p>${action}</aside>`;
+    }
+  }
+}
+
+function figureVariant(figure: ArticleFigure, format: string) {
+  return (
+    figure.variants.find((variant) => variant.aspectRatio === "16:9" && variant.format === format) ??
+    figure.variants.find((variant) => variant.format === format)
+  );
+}
+
+function figureToMarkdown(figure: ArticleFigure): string[] {
+  const image = figureVariant(figure, "webp") ?? figure.variants[0];
+  if (!image) return [];
+  return [`![${figure.alt.replace(/[[\]]/g, "")}](${image.url})`, ...(figure.caption ? [`*${figure.caption}*`] : [])];
+}
+
+function figureToHtml(figure: ArticleFigure, lazy: boolean): string[] {
+  const image = figureVariant(figure, "webp") ?? figure.variants[0];
+  if (!image) return [];
+  const avif = figureVariant(figure, "avif");
+  const size = `width="${image.width}" height="${image.height}"${lazy ? ' loading="lazy"' : ""}`;
+  const img = `<img src="${escapeHtml(image.url)}" alt="${escapeHtml(figure.alt)}" ${size} />`;
+  return [
+    [
+      "<figure>",
+      avif ? `<picture><source type="image/avif" srcset="${escapeHtml(avif.url)}" />${img}</picture>` : img,
+      figure.caption ? `<figcaption>${escapeHtml(figure.caption)}</figcaption>` : "",
+      "</figure>"
+    ].join("")
+  ];
+}
+
+export function renderArticleMarkdown(article: Article, figures: ArticleFigure[] = []): string {
+  const parts = [`# ${article.headline}`, ...(figures[0] ? figureToMarkdown(figures[0]) : [])];
+  article.sections.forEach((section, index) => {
+    parts.push(`## ${section.heading}`, ...section.blocks.map(blockToMarkdown));
+    section.subsections.forEach((subsection) => {
+      parts.push(`### ${subsection.heading}`, ...subsection.blocks.map(blockToMarkdown));
+    });
+    const figure = figures[index + 1];
+    if (figure) {
+      parts.push(...figureToMarkdown(figure));
+    }
+  });
+  return `${parts.join("\n\n")}\n`;
+}
+
+function sectionsToHtml(article: Article, figures: ArticleFigure[]): string[] {
+  const lines: string[] = [];
+  article.sections.forEach((section, index) => {
+    lines.push(`<section class="${section.kind}">`, `<h2>${escapeHtml(section.heading)}</h2>`);
+    lines.push(...section.blocks.map(blockToHtml));
+    section.subsections.forEach((subsection) => {
+      lines.push("<section>", `<h3>${escapeHtml(subsection.heading)}</h3>`, ...subsection.blocks.map(blockToHtml), "</section>");
+    });
+    const figure = figures[index + 1];
+    if (figure) {
+      lines.push(...figureToHtml(figure, true));
+    }
+    lines.push("</section>");
+  });
+  return lines;
+}
+
+export function renderArticleHtml(article: Article, figures: ArticleFigure[] = []): string {
+  const lines = ["<article>", `<h1>${escapeHtml(article.headline)}</h1>`];
+  if (figures[0]) {
+    lines.push(...figureToHtml(figures[0], false));
+  }
+  lines.push(...sectionsToHtml(article, figures), "</article>");
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderArticleBodyHtml(article: Article, figures: ArticleFigure[] = []): string {
+  return `${sectionsToHtml(article, figures).join("\n")}\n`;
+}
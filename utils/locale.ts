@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+const languageTagPattern =
+  /^[a-z]{2,3}(?:-[a-z]{4})?(?:-(?:[a-z]{2}|\d{3}))?(?:-(?:[a-z\d]{5,8}|\d[a-z\d]{3}))*(?:-[a-wyz\d](?:-[a-z\d]{2,8})+)*$/i;
+
+export function canonicalLocale(value: string): string | null {
+  const tag = value.trim();
+  if (!languageTagPattern.test(tag)) {
+    return null;
+  }
+  try {
+    return Intl.getCanonicalLocales(tag)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export const localeSchema = z
+  .string()
+  .trim()
+  .refine((value) => canonicalLocale(value) !== null, {
+    message: "Must be a BCP 47 language tag such as pt-BR, es-MX or en-US."
+  })
+  .transform((value) => canonicalLocale(value) as string);